@@ -0,0 +1,105 @@
+import { Board, TeamBoard, Workspace } from './types';
+import { DEFAULT_VIEW } from './storage';
+import { mergeConcurrent, mergeIds, mergeOrder } from './merge';
+import { mergeUsage } from './usage';
+import { createId } from './utils';
+
+// --- QUERIES ---
+export const activeBoard = (workspace: Workspace) =>
+  workspace.boards.find(b => b.id === workspace.activeBoardId) ?? workspace.boards[0];
+
+// "Daily" becomes "Daily (2)", "Daily (3)"… when the name is taken.
+export const uniqueBoardName = (boards: Board[], name: string) => {
+  const taken = new Set(boards.map(b => b.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+export const boardFileName = (board: Pick<Board, 'name'>, extension = 'json') => {
+  const slug = board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `visual-favorites-${slug || 'board'}.${extension}`;
+};
+
+// --- MUTATIONS ---
+export const updateBoard = (workspace: Workspace, id: string, data: Partial<Omit<Board, 'id'>>): Workspace => ({
+  ...workspace,
+  boards: workspace.boards.map(b => (b.id === id ? { ...b, ...data } : b)),
+});
+
+export const addBoard = (workspace: Workspace, name: string): Workspace => {
+  const board: Board = { id: createId('board'), name: uniqueBoardName(workspace.boards, name), groups: [], view: DEFAULT_VIEW };
+  return { ...workspace, boards: [...workspace.boards, board], activeBoardId: board.id };
+};
+
+// The copy goes right after the original and becomes the active board.
+export const cloneBoard = (workspace: Workspace, id: string): Workspace => {
+  const index = workspace.boards.findIndex(b => b.id === id);
+  if (index < 0) return workspace;
+  // A copy is a local board again; a team board is only shared under its own id.
+  const { team, ...source } = workspace.boards[index];
+  const copy: Board = { ...source, id: createId('board'), name: uniqueBoardName(workspace.boards, `${source.name} copy`) };
+  const boards = [...workspace.boards];
+  boards.splice(index + 1, 0, copy);
+  return { ...workspace, boards, activeBoardId: copy.id };
+};
+
+// Subscribes to a board someone shared. Its content arrives from the server once connected; a
+// board with that id that is already here is switched to instead of added twice.
+export const joinTeamBoard = (workspace: Workspace, id: string, name: string, team: TeamBoard): Workspace => {
+  if (workspace.boards.some(b => b.id === id)) return { ...updateBoard(workspace, id, { team }), activeBoardId: id };
+  const board: Board = { id, name: uniqueBoardName(workspace.boards, name), groups: [], view: DEFAULT_VIEW, team };
+  return { ...workspace, boards: [...workspace.boards, board], activeBoardId: id };
+};
+
+// The last board can't be removed; deleting the active board activates its neighbour.
+export const removeBoard = (workspace: Workspace, id: string): Workspace => {
+  if (workspace.boards.length <= 1) return workspace;
+  const index = workspace.boards.findIndex(b => b.id === id);
+  if (index < 0) return workspace;
+  const boards = workspace.boards.filter(b => b.id !== id);
+  const activeBoardId = workspace.activeBoardId === id ? boards[Math.min(index, boards.length - 1)].id : workspace.activeBoardId;
+  return { ...workspace, boards, activeBoardId };
+};
+
+// Imported boards always get fresh ids, so importing the same file twice never overwrites a board.
+export const appendBoards = (workspace: Workspace, imported: Board[]): Workspace => {
+  const boards = [...workspace.boards];
+  imported.forEach(({ team, ...board }) => {
+    boards.push({ ...board, id: createId('board'), name: uniqueBoardName(boards, board.name) });
+  });
+  return { ...workspace, boards };
+};
+
+// --- SYNC ---
+// What every tab shares; which board is open and how each one is panned stay per tab.
+const sharedBoard = ({ view, ...shared }: Board) => shared;
+
+// Folds in what another tab saved since `base`, the last copy both tabs had. Boards come and go
+// like groups do in mergeConcurrent, and their groups and usage are merged the same way.
+export const mergeWorkspaces = (base: Workspace, mine: Workspace, theirs: Workspace): Workspace => {
+  const shared = (workspace: Workspace) => new Map(workspace.boards.map(b => [b.id, sharedBoard(b)]));
+  const byId = (workspace: Workspace) => new Map(workspace.boards.map(b => [b.id, b]));
+  const ids = (workspace: Workspace) => workspace.boards.map(b => b.id);
+  const [baseBoards, myBoards, theirBoards] = [byId(base), byId(mine), byId(theirs)];
+  const keep = mergeIds(shared(base), shared(mine), shared(theirs));
+
+  const boards = mergeOrder(ids(base), ids(mine), ids(theirs), keep).map(id => {
+    const [was, ours, their] = [baseBoards.get(id), myBoards.get(id), theirBoards.get(id)];
+    if (!ours || !their) return (ours ?? their)!;
+    if (was && JSON.stringify(sharedBoard(ours)) === JSON.stringify(sharedBoard(was))) return { ...their, view: ours.view };
+    return {
+      ...ours,
+      name: was && ours.name === was.name ? their.name : ours.name,
+      team: was && JSON.stringify(ours.team) === JSON.stringify(was.team) ? their.team : ours.team,
+      groups: mergeConcurrent(was?.groups ?? [], ours.groups, their.groups).groups,
+      usage: mergeUsage(was?.usage, ours.usage, their.usage),
+    };
+  });
+  return { boards, activeBoardId: mine.activeBoardId, images: { ...theirs.images, ...mine.images } };
+};
+
+// Whether two workspaces differ only in what each tab keeps to itself.
+export const sameSharedContent = (a: Workspace, b: Workspace) =>
+  JSON.stringify([a.boards.map(sharedBoard), a.images]) === JSON.stringify([b.boards.map(sharedBoard), b.images]);
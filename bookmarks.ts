@@ -0,0 +1,177 @@
+import { Favorite, Group } from './types';
+import { createId } from './utils';
+import { findFreePositions } from './layout';
+import { GroupNode, toGroupTree } from './hierarchy';
+import { parseTags } from './tags';
+import { ImageStore, isDataImage, resolveImageUrl } from './images';
+import { getLinkHandler } from './linkHandlers';
+
+// --- DATA TYPES ---
+export interface BookmarkLink {
+  title: string;
+  url: string;
+  icon?: string;
+  tags?: string[];
+  note?: string;
+}
+
+export interface BookmarkFolder {
+  name: string;
+  links: BookmarkLink[];
+}
+
+export interface BookmarkImportPlan {
+  groups: Group[];
+  linkCount: number;
+  skippedDuplicates: number;
+}
+
+const LOOSE_LINKS_FOLDER = 'Imported Bookmarks';
+
+// --- PARSING ---
+export const isBookmarksHtml = (text: string) =>
+  /<!DOCTYPE\s+NETSCAPE-Bookmark-file/i.test(text.slice(0, 500));
+
+// Browsers nest folders as <DT><H3>Name</H3><DL>…</DL>. Nested folders are flattened into
+// "Parent / Child" so every folder that holds links becomes its own sun.
+export const parseBookmarksHtml = (html: string): BookmarkFolder[] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const root = doc.querySelector('dl');
+  if (!root) return [];
+
+  const folders: BookmarkFolder[] = [];
+  const walk = (dl: Element, path: string[]) => {
+    const links: BookmarkLink[] = [];
+    Array.from(dl.children).forEach(child => {
+      if (child.tagName !== 'DT') return;
+      const heading = child.querySelector(':scope > h3');
+      const anchor = child.querySelector(':scope > a');
+      if (heading) {
+        const nested = child.querySelector(':scope > dl') ?? (child.nextElementSibling?.tagName === 'DL' ? child.nextElementSibling : null);
+        if (nested) walk(nested, [...path, heading.textContent?.trim() || 'Untitled']);
+      } else if (anchor) {
+        // Only links a web favorite accepts come in; that leaves out javascript:, data: and place: ones.
+        const normalized = getLinkHandler('web').normalize(anchor.getAttribute('href') ?? '');
+        if (!normalized.ok) return;
+        const { url } = normalized;
+        const icon = anchor.getAttribute('icon') ?? undefined;
+        // Firefox writes tags as TAGS="a,b"; a <DD> right after the link holds its description.
+        const tags = parseTags(anchor.getAttribute('tags') ?? '');
+        const description = child.nextElementSibling?.tagName === 'DD' ? child.nextElementSibling.textContent?.trim() : undefined;
+        links.push({
+          title: anchor.textContent?.trim() || url,
+          url,
+          icon: icon?.startsWith('data:image/') ? icon : undefined,
+          tags: tags.length ? tags : undefined,
+          note: description || undefined,
+        });
+      }
+    });
+    if (links.length > 0) {
+      folders.push({ name: path.length ? path.join(' / ') : LOOSE_LINKS_FOLDER, links });
+    }
+  };
+  walk(root, []);
+  return folders;
+};
+
+// --- CONVERSION ---
+export const normalizeUrlForCompare = (url: string) => {
+  try {
+    const parsed = new URL(url.trim());
+    const path = parsed.pathname.replace(/\/+$/, '');
+    return `${parsed.protocol}//${parsed.host.toLowerCase()}${path}${parsed.search}`;
+  } catch {
+    return url.trim().toLowerCase();
+  }
+};
+
+const toFavorite = (link: BookmarkLink): Favorite => ({
+  id: createId('fav'),
+  type: 'web',
+  name: link.title,
+  url: link.url,
+  imageUrl: link.icon,
+  openBehavior: 'newTab',
+  tags: link.tags,
+  note: link.note,
+});
+
+// Merging adds links to an existing sun with the same name and creates new suns in free
+// space for the rest. URLs already on the canvas, or repeated in the file, are skipped.
+export const planBookmarkImport = (folders: BookmarkFolder[], current: Group[], mode: 'merge' | 'replace'): BookmarkImportPlan => {
+  const base = mode === 'merge' ? current : [];
+  const seenUrls = new Set(base.flatMap(g => g.favorites.map(f => normalizeUrlForCompare(f.url))));
+  let skippedDuplicates = 0;
+  let linkCount = 0;
+
+  const additions = new Map<string, Favorite[]>();
+  const newFolders: { name: string; favorites: Favorite[] }[] = [];
+  folders.forEach(folder => {
+    const favorites = folder.links.filter(link => {
+      const key = normalizeUrlForCompare(link.url);
+      if (seenUrls.has(key)) {
+        skippedDuplicates++;
+        return false;
+      }
+      seenUrls.add(key);
+      return true;
+    }).map(toFavorite);
+    if (favorites.length === 0) return;
+    linkCount += favorites.length;
+
+    const existing = base.find(g => g.name.toLowerCase() === folder.name.toLowerCase());
+    if (existing) {
+      additions.set(existing.id, [...(additions.get(existing.id) ?? []), ...favorites]);
+    } else {
+      newFolders.push({ name: folder.name, favorites });
+    }
+  });
+
+  const positions = findFreePositions(base, newFolders.length);
+  const groups = [
+    ...base.map(g => additions.has(g.id) ? { ...g, favorites: [...g.favorites, ...additions.get(g.id)!] } : g),
+    ...newFolders.map((folder, i) => ({ id: createId('group'), name: folder.name, favorites: folder.favorites, ...positions[i] })),
+  ];
+  return { groups, linkCount, skippedDuplicates };
+};
+
+// --- EXPORT ---
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Sub-groups become nested folders, so browsers show the same hierarchy.
+export const exportBookmarksHtml = (groups: Group[], images: ImageStore) => {
+  const now = Math.floor(Date.now() / 1000);
+  const renderFolder = (group: GroupNode, depth: number): string => {
+    const indent = '    '.repeat(depth);
+    return [
+      `${indent}<DT><H3 ADD_DATE="${now}">${escapeHtml(group.name)}</H3>`,
+      `${indent}<DL><p>`,
+      ...(group.children ?? []).map(child => renderFolder(child, depth + 1)),
+      ...group.favorites.map(fav => {
+        const imageUrl = resolveImageUrl(fav.imageUrl, images);
+        const icon = isDataImage(imageUrl) ? ` ICON="${escapeHtml(imageUrl)}"` : '';
+        const tags = fav.tags?.length ? ` TAGS="${escapeHtml(fav.tags.join(','))}"` : '';
+        const link = `${indent}    <DT><A HREF="${escapeHtml(fav.url)}" ADD_DATE="${now}"${icon}${tags}>${escapeHtml(fav.name)}</A>`;
+        return fav.note ? `${link}\n${indent}    <DD>${escapeHtml(fav.note)}` : link;
+      }),
+      `${indent}</DL><p>`,
+    ].join('\n');
+  };
+  const folders = toGroupTree(groups).map(group => renderFolder(group, 1));
+
+  return [
+    '<!DOCTYPE NETSCAPE-Bookmark-file-1>',
+    '<!-- This is an automatically generated file.',
+    '     It will be read and overwritten.',
+    '     DO NOT EDIT! -->',
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    '<TITLE>Bookmarks</TITLE>',
+    '<H1>Bookmarks</H1>',
+    '<DL><p>',
+    ...folders,
+    '</DL><p>',
+    '',
+  ].join('\n');
+};
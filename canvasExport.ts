@@ -0,0 +1,263 @@
+import { Favorite, Group } from './types';
+import { PlacedGroup, computePlanetPositions, visibleOrbitExtent } from './layout';
+import { Bounds, boundsOf, isInside, overlaps } from './viewport';
+import { ImageStore, isDataImage, resolveImageUrl } from './images';
+import { cachedFavicon, faviconHost, generateDisplayText, monogramHue } from './thumbnails';
+import { FavoriteType, getLinkHandler, typeDescription } from './linkHandlers';
+import { descendantIds, groupPath } from './hierarchy';
+
+// --- CONSTANTS ---
+const EXPORT_PADDING = 80;
+// PNGs are drawn at twice the canvas size so they stay sharp on slides.
+const PNG_SCALE = 2;
+// Browsers refuse canvases much larger than this, so a big board is scaled down to fit.
+const MAX_PNG_SIDE = 8192;
+// How far a planet's card reaches from its center, label included.
+const CARD_REACH = 70;
+const NAME_MAX_LENGTH = 18;
+
+// The exported file carries no stylesheet, so these follow index.css.
+const COLORS = {
+  background: '#0f0c29',
+  text: '#f0f0f0',
+  textDark: '#a0a0a0',
+  accent: '#00c6ff',
+  connection: 'rgba(0, 198, 255, 0.3)',
+  subsystem: 'rgba(0, 198, 255, 0.5)',
+  textThumbnail: ['#2c295c', '#1e1b42'],
+  faviconThumbnail: '#f0f0f0',
+};
+
+// `color` edges the thumbnail and ends a monogram's gradient; web monograms end in a darker shade of their own hue.
+const THUMBNAIL_STYLES: Partial<Record<FavoriteType, { size: number; round: boolean; color: string }>> = {
+  web: { size: 90, round: false, color: COLORS.text },
+  excel: { size: 90, round: false, color: '#1abc9c' },
+  powerpoint: { size: 90, round: false, color: '#e74c3c' },
+  teams: { size: 60, round: true, color: COLORS.accent },
+  teamsGroup: { size: 60, round: true, color: '#9b59b6' },
+};
+const DEFAULT_THUMBNAIL_STYLE = THUMBNAIL_STYLES.web!;
+
+// --- DATA TYPES ---
+export type ExportArea = 'board' | 'visible' | 'selection';
+
+export interface CanvasImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+// --- REGIONS ---
+const padded = (bounds: Bounds | null): Bounds | null => bounds && {
+  minX: bounds.minX - EXPORT_PADDING,
+  minY: bounds.minY - EXPORT_PADDING,
+  maxX: bounds.maxX + EXPORT_PADDING,
+  maxY: bounds.maxY + EXPORT_PADDING,
+};
+
+// Everything on the board: every shown sun with its orbit.
+export const boardRegion = (placed: PlacedGroup[]): Bounds | null =>
+  padded(boundsOf(placed.filter(g => !g.hidden).map(g => ({ x: g.x, y: g.y, radius: visibleOrbitExtent(g) + CARD_REACH }))));
+
+// The selected suns with their whole systems, and the selected planets.
+export const selectionRegion = (
+  placed: PlacedGroup[],
+  positions: Record<string, { x: number; y: number }>,
+  groupIds: string[],
+  favoriteIds: string[],
+): Bounds | null => {
+  const inside = new Set<string>(groupIds.flatMap(id => [id, ...descendantIds(placed, id)]));
+  return padded(boundsOf([
+    ...placed.filter(g => inside.has(g.id) && !g.hidden).map(g => ({ x: g.x, y: g.y, radius: visibleOrbitExtent(g) + CARD_REACH })),
+    ...favoriteIds.filter(id => positions[id]).map(id => ({ ...positions[id], radius: CARD_REACH })),
+  ]));
+};
+
+// --- SVG ---
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// A tenth of a pixel is plenty and keeps the file small.
+const roundPoint = ({ x, y }: { x: number; y: number }) => ({ x: Math.round(x * 10) / 10, y: Math.round(y * 10) / 10 });
+
+// Where an exported favorite links to: its web address, or the one its handler falls back to.
+// Anything else (a `javascript:` URL from an edited file, say) is left as plain text, since the
+// printable list opens as a page of this site.
+const webHref = (favorite: Favorite) => {
+  const { href, fallback } = getLinkHandler(favorite.type).resolve(favorite);
+  return [favorite.url, href, fallback].find(url => url && /^https?:\/\//i.test(url));
+};
+
+const truncate = (text: string) => (text.length > NAME_MAX_LENGTH ? `${text.slice(0, NAME_MAX_LENGTH - 1)}…` : text);
+
+// Only images already held as data URLs go in, so the file stands alone and a PNG can be drawn
+// from it; a picture that lives on another site is replaced by the favorite's monogram.
+const inlinePicture = (favorite: Favorite, images: ImageStore) => {
+  const src = resolveImageUrl(favorite.imageUrl, images);
+  return isDataImage(src) ? src : undefined;
+};
+
+const inlineFavicon = (favorite: Favorite) => {
+  const host = favorite.favicon ? faviconHost(favorite.url) : null;
+  const icon = host ? cachedFavicon(host) : undefined;
+  return isDataImage(icon) ? icon : undefined;
+};
+
+const gradient = (id: string, from: string, to: string) =>
+  `<linearGradient id="${id}" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${from}"/><stop offset="1" stop-color="${to}"/></linearGradient>`;
+
+const renderPlanet = (favorite: Favorite, pos: { x: number; y: number }, images: ImageStore, index: number) => {
+  const style = THUMBNAIL_STYLES[favorite.type] ?? DEFAULT_THUMBNAIL_STYLE;
+  const half = style.size / 2;
+  const [x, y] = [pos.x - half, pos.y - half];
+  const shape = style.round
+    ? `<circle cx="${pos.x}" cy="${pos.y}" r="${half}"`
+    : `<rect x="${x}" y="${y}" width="${style.size}" height="${style.size}" rx="8"`;
+  // Same order as the Thumbnail component: picture, display text, site icon, monogram.
+  const src = inlinePicture(favorite, images);
+  const icon = src || favorite.displayText ? undefined : inlineFavicon(favorite);
+  const image = (href: string, inset: number, fit: string) =>
+    `<clipPath id="clip-${index}">${shape}/></clipPath>`
+    + `<g clip-path="url(#clip-${index})">${icon ? `${shape} fill="${COLORS.faviconThumbnail}"/>` : ''}`
+    + `<image href="${escapeXml(href)}" x="${x + inset}" y="${y + inset}" width="${style.size - inset * 2}" height="${style.size - inset * 2}" preserveAspectRatio="${fit}"/></g>`;
+  let picture: string;
+  if (src) {
+    picture = image(src, 0, 'xMidYMid slice');
+  } else if (icon) {
+    picture = image(icon, style.size * 0.18, 'xMidYMid meet');
+  } else {
+    const hue = monogramHue(favorite.name);
+    const [from, to] = favorite.displayText
+      ? COLORS.textThumbnail
+      : [`hsl(${hue}, 60%, 42%)`, style === DEFAULT_THUMBNAIL_STYLE ? `hsl(${hue}, 45%, 20%)` : style.color];
+    const text = favorite.displayText ?? generateDisplayText(favorite.name);
+    picture = gradient(`fill-${index}`, from, to) + `${shape} fill="url(#fill-${index})"/>`
+      + `<text x="${pos.x}" y="${pos.y}" dy="0.35em" text-anchor="middle" font-family="'Exo 2', sans-serif" font-size="${style.round ? 18 : 24}" font-weight="700" fill="${COLORS.text}">${escapeXml(text)}</text>`;
+  }
+  const border = `${shape} fill="none" stroke="${style.color}" stroke-width="2"/>`;
+  const label = `<text x="${pos.x}" y="${pos.y + half + 18}" text-anchor="middle" font-size="13" fill="${COLORS.text}">${escapeXml(truncate(favorite.name))}</text>`;
+  const content = `<title>${escapeXml(favorite.name)}</title>${picture}${border}${label}`;
+  const href = webHref(favorite);
+  return href ? `<a href="${escapeXml(href)}">${content}</a>` : `<g>${content}</g>`;
+};
+
+const renderSun = (group: PlacedGroup, groups: Group[]) => {
+  const glow = group.color ?? COLORS.accent;
+  const name = escapeXml(`${group.icon ? `${group.icon} ` : ''}${group.name}`);
+  const hidden = group.collapsed
+    ? [group.id, ...descendantIds(groups, group.id)].reduce((n, id) => n + (groups.find(g => g.id === id)?.favorites.length ?? 0), 0)
+    : 0;
+  const badge = group.collapsed
+    ? `<text x="${group.x}" y="${group.y + 30}" text-anchor="middle" font-size="13" fill="${COLORS.textDark}">${hidden} favorite${hidden === 1 ? '' : 's'}</text>`
+    : '';
+  return `<g><text x="${group.x}" y="${group.y}" dy="0.35em" text-anchor="middle" font-family="'Exo 2', sans-serif" font-size="32" font-weight="700" fill="#fff" stroke="${escapeXml(glow)}" stroke-opacity="0.6" stroke-width="6" paint-order="stroke" filter="url(#glow)">${name}</text>${badge}</g>`;
+};
+
+// Draws `area` of the board as a standalone SVG: suns, orbit and sub-system lines, and planets
+// with their thumbnails. Each planet links to its favorite's web address.
+export const renderCanvasSvg = (placed: PlacedGroup[], images: ImageStore, area: Bounds, title: string): CanvasImage => {
+  const width = Math.ceil(area.maxX - area.minX);
+  const height = Math.ceil(area.maxY - area.minY);
+  const shown = placed.filter(g => !g.hidden).map(g => ({ ...g, ...roundPoint(g) }));
+  const orbiting = shown.filter(g => !g.collapsed && overlaps(area, boundsOf([{ x: g.x, y: g.y, radius: visibleOrbitExtent(g) + CARD_REACH }])!));
+  const positions = Object.fromEntries(Object.entries(computePlanetPositions(orbiting)).map(([id, pos]) => [id, roundPoint(pos)]));
+
+  const subsystemLines = shown.map(sub => {
+    const parent = sub.depth > 0 ? shown.find(g => g.id === sub.parentId) : undefined;
+    if (!parent || !overlaps(area, boundsOf([parent, sub])!)) return '';
+    return `<line x1="${parent.x}" y1="${parent.y}" x2="${sub.x}" y2="${sub.y}" stroke="${COLORS.subsystem}" stroke-width="2" stroke-dasharray="6 6"/>`;
+  });
+  const connectionLines = orbiting.flatMap(group => group.favorites.map(fav => {
+    const pos = positions[fav.id];
+    return pos ? `<line x1="${group.x}" y1="${group.y}" x2="${pos.x}" y2="${pos.y}" stroke="${COLORS.connection}" stroke-width="1"/>` : '';
+  }));
+  let index = 0;
+  const planets = orbiting.flatMap(group => group.favorites.map(fav => {
+    const pos = positions[fav.id];
+    return pos && isInside(area, { ...pos, radius: CARD_REACH }) ? renderPlanet(fav, pos, images, index++) : '';
+  }));
+  const suns = shown.filter(g => isInside(area, { x: g.x, y: g.y, radius: CARD_REACH * 2 })).map(g => renderSun(g, placed));
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${area.minX} ${area.minY} ${width} ${height}" font-family="Roboto, sans-serif">`,
+    `<title>${escapeXml(title)}</title>`,
+    `<defs><filter id="glow" x="-20%" y="-50%" width="140%" height="200%"><feGaussianBlur stdDeviation="4" result="blur"/><feMerge><feMergeNode in="blur"/><feMergeNode in="SourceGraphic"/></feMerge></filter></defs>`,
+    `<rect x="${area.minX}" y="${area.minY}" width="${width}" height="${height}" fill="${COLORS.background}"/>`,
+    ...subsystemLines,
+    ...connectionLines,
+    ...planets,
+    ...suns,
+    '</svg>',
+  ].filter(Boolean).join('\n');
+  return { svg, width, height };
+};
+
+// --- PNG ---
+export const renderCanvasPng = ({ svg, width, height }: CanvasImage): Promise<Blob> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    URL.revokeObjectURL(url);
+    const scale = Math.min(PNG_SCALE, MAX_PNG_SIDE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * scale);
+    canvas.height = Math.round(height * scale);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      reject(new Error('This browser cannot draw images.'));
+      return;
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0, width, height);
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The image is too large to save as a PNG.'))), 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The board could not be drawn.'));
+  };
+  image.src = url;
+});
+
+// --- PRINTABLE LIST ---
+// A plain page listing every favorite under its sun, for printing or saving as PDF. Like the image's
+// links, they go to the favorite's web address, which opens for anyone, app installed or not.
+export const renderPrintableList = (groups: Group[], title: string) => {
+  const sections = groups.map(group => {
+    const items = group.favorites.map(fav => {
+      const details = [typeDescription(fav.type), ...(fav.tags ?? []).map(t => `#${t}`)].join(' · ');
+      const href = webHref(fav);
+      const name = href ? `<a href="${escapeXml(href)}">${escapeXml(fav.name)}</a>` : escapeXml(fav.name);
+      return `<li>${name} <span class="meta">${escapeXml(details)}</span>`
+        + `<div class="url">${escapeXml(fav.url)}</div>${fav.note ? `<div class="note">${escapeXml(fav.note)}</div>` : ''}</li>`;
+    }).join('\n');
+    return `<section><h2>${escapeXml(groupPath(groups, group.id))}</h2>${items ? `<ul>${items}</ul>` : '<p class="meta">No favorites</p>'}</section>`;
+  }).join('\n');
+  const count = groups.reduce((n, g) => n + g.favorites.length, 0);
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<title>${escapeXml(title)}</title>
+<style>
+  body { font-family: Roboto, Arial, sans-serif; color: #222; max-width: 50rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.5; }
+  h1 { margin-bottom: 0.2rem; }
+  h2 { margin-top: 1.8rem; padding-bottom: 0.2rem; border-bottom: 2px solid #00c6ff; font-size: 1.2rem; }
+  section { break-inside: avoid-page; }
+  ul { list-style: none; padding: 0; }
+  li { padding: 0.4rem 0; border-bottom: 1px solid #eee; break-inside: avoid; }
+  a { color: #0060a0; font-weight: 500; }
+  .meta, .url, .note { color: #666; font-size: 0.85rem; }
+  .url { word-break: break-all; }
+  .note { font-style: italic; }
+  .print { float: right; font: inherit; padding: 0.4rem 1rem; cursor: pointer; }
+  @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<button class="print" onclick="window.print()">Print</button>
+<h1>${escapeXml(title)}</h1>
+<p class="meta">${groups.length} group${groups.length === 1 ? '' : 's'} · ${count} favorite${count === 1 ? '' : 's'} · ${escapeXml(new Date().toLocaleDateString())}</p>
+${sections}
+</body>
+</html>`;
+};
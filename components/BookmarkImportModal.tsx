@@ -0,0 +1,58 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Group } from '../types';
+import { BookmarkFolder, BookmarkImportPlan, planBookmarkImport } from '../bookmarks';
+
+export const BookmarkImportModal: React.FC<{
+  folders: BookmarkFolder[];
+  currentGroups: Group[];
+  onImport: (plan: BookmarkImportPlan, mode: 'merge' | 'replace') => void;
+  onClose: () => void;
+}> = ({ folders, currentGroups, onImport, onClose }) => {
+  const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsOpen(true), 10);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const plan = useMemo(() => planBookmarkImport(folders, currentGroups, mode), [folders, currentGroups, mode]);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 400);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === 'replace' && !window.confirm("This will overwrite your current layout. Are you sure?")) return;
+    onImport(plan, mode);
+    handleClose();
+  };
+
+  return (
+    <div className={`modal-overlay ${isOpen ? 'open' : ''}`} onClick={handleClose}>
+      <div className="modal-content" role="dialog" aria-modal="true" aria-labelledby="bookmark-import-title" onClick={(e) => e.stopPropagation()}>
+        <h3 id="bookmark-import-title">Import Bookmarks</h3>
+        <form className="modal-form" onSubmit={handleSubmit}>
+          <p className="modal-text">
+            Found {folders.length} folder{folders.length === 1 ? '' : 's'} with {folders.reduce((n, f) => n + f.links.length, 0)} links.
+          </p>
+          <div className="form-group radio-group"><label>Mode:</label>
+            <label><input type="radio" name="importMode" value="merge" checked={mode === 'merge'} onChange={() => setMode('merge')} /> Merge</label>
+            <label><input type="radio" name="importMode" value="replace" checked={mode === 'replace'} onChange={() => setMode('replace')} /> Replace</label>
+          </div>
+          <ul className="import-summary">
+            <li>{plan.linkCount} favorite{plan.linkCount === 1 ? '' : 's'} will be added</li>
+            <li>{plan.skippedDuplicates} duplicate URL{plan.skippedDuplicates === 1 ? '' : 's'} skipped</li>
+            {mode === 'replace' && <li>Your current {currentGroups.length} group{currentGroups.length === 1 ? '' : 's'} will be removed</li>}
+          </ul>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleClose}>Cancel</button>
+            <button type="submit" className="btn" disabled={plan.linkCount === 0}>Import</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useRef } from 'react';
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect?: () => void;
+  items?: ContextMenuItem[];
+  danger?: boolean;
+  disabled?: boolean;
+}
+
+export interface ContextMenuState {
+  x: number;
+  y: number;
+  title: string;
+  items: ContextMenuItem[];
+}
+
+export const ContextMenu: React.FC<ContextMenuState & { onClose: () => void }> = ({ x, y, title, items, onClose }) => {
+  // Submenus replace the visible list; the stack lets ArrowLeft/Back return to the parent.
+  const [stack, setStack] = useState<{ title: string; items: ContextMenuItem[] }[]>([{ title, items }]);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const returnFocusRef = useRef<HTMLElement | null>(null);
+  const current = stack[stack.length - 1];
+
+  useEffect(() => {
+    returnFocusRef.current = document.activeElement as HTMLElement | null;
+    return () => returnFocusRef.current?.focus?.();
+  }, []);
+
+  useEffect(() => {
+    setStack([{ title, items }]);
+  }, [title, items]);
+
+  useEffect(() => {
+    const first = menuRef.current?.querySelector<HTMLButtonElement>('[role="menuitem"]:not(:disabled)');
+    first?.focus();
+  }, [stack]);
+
+  useEffect(() => {
+    const handlePointerDown = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) onClose();
+    };
+    document.addEventListener('mousedown', handlePointerDown);
+    return () => document.removeEventListener('mousedown', handlePointerDown);
+  }, [onClose]);
+
+  const activate = (item: ContextMenuItem) => {
+    if (item.disabled) return;
+    if (item.items) {
+      setStack(prev => [...prev, { title: item.label, items: item.items! }]);
+      return;
+    }
+    onClose();
+    item.onSelect?.();
+  };
+
+  const goBack = () => {
+    if (stack.length > 1) setStack(prev => prev.slice(0, -1));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const buttons: HTMLButtonElement[] = Array.from(menuRef.current?.querySelectorAll<HTMLButtonElement>('[role="menuitem"]:not(:disabled)') ?? []);
+    const index = buttons.indexOf(document.activeElement as HTMLButtonElement);
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        buttons[(index + 1) % buttons.length]?.focus();
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        buttons[(index - 1 + buttons.length) % buttons.length]?.focus();
+        break;
+      case 'Home':
+        e.preventDefault();
+        buttons[0]?.focus();
+        break;
+      case 'End':
+        e.preventDefault();
+        buttons[buttons.length - 1]?.focus();
+        break;
+      case 'ArrowLeft':
+      case 'Backspace':
+        e.preventDefault();
+        goBack();
+        break;
+      case 'ArrowRight': {
+        const item = current.items[Number(buttons[index]?.dataset.index)];
+        if (item?.items) {
+          e.preventDefault();
+          activate(item);
+        }
+        break;
+      }
+      case 'Escape':
+      case 'Tab':
+        e.preventDefault();
+        onClose();
+        break;
+    }
+  };
+
+  // Keep the menu inside the viewport when opened near the right or bottom edge.
+  const style: React.CSSProperties = {
+    left: Math.min(x, window.innerWidth - 220),
+    top: Math.min(y, window.innerHeight - (current.items.length + 2) * 40),
+  };
+
+  return (
+    <div className="context-menu" ref={menuRef} style={style} role="menu" aria-label={current.title} onKeyDown={handleKeyDown} onContextMenu={(e) => e.preventDefault()}>
+      <div className="context-menu-title">{current.title}</div>
+      {stack.length > 1 && (
+        <button className="context-menu-item" role="menuitem" onClick={goBack}>← Back</button>
+      )}
+      {current.items.map((item, i) => (
+        <button
+          key={`${i}-${item.label}`}
+          className={`context-menu-item ${item.danger ? 'is-danger' : ''}`}
+          role="menuitem"
+          aria-haspopup={item.items ? 'menu' : undefined}
+          data-index={i}
+          disabled={item.disabled}
+          onClick={() => activate(item)}
+        >
+          {item.label}{item.items && <span className="context-menu-arrow">›</span>}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React, { useState, useEffect } from 'react';
+import { Group } from '../types';
+
+export const DeleteGroupModal: React.FC<{
+  group: Group;
+  otherGroups: Group[];
+  onConfirm: (moveToGroupId: string | null) => void;
+  onClose: () => void;
+}> = ({ group, otherGroups, onConfirm, onClose }) => {
+  const [mode, setMode] = useState<'delete' | 'move'>(otherGroups.length > 0 ? 'move' : 'delete');
+  const [targetGroupId, setTargetGroupId] = useState(otherGroups[0]?.id ?? '');
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsOpen(true), 10);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 400);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(mode === 'move' && targetGroupId ? targetGroupId : null);
+    handleClose();
+  };
+
+  const count = group.favorites.length;
+
+  return (
+    <div className={`modal-overlay ${isOpen ? 'open' : ''}`} onClick={handleClose}>
+      <div className="modal-content" role="dialog" aria-modal="true" aria-labelledby="delete-group-title" onClick={(e) => e.stopPropagation()}>
+        <h3 id="delete-group-title">Delete "{group.name}"?</h3>
+        <form className="modal-form" onSubmit={handleSubmit}>
+          <p className="modal-text">This group has {count} favorite{count === 1 ? '' : 's'}. What should happen to {count === 1 ? 'it' : 'them'}?</p>
+          <div className="form-group radio-group">
+            <label><input type="radio" name="orphans" value="move" checked={mode === 'move'} disabled={otherGroups.length === 0} onChange={() => setMode('move')} /> Move to group</label>
+            <label><input type="radio" name="orphans" value="delete" checked={mode === 'delete'} onChange={() => setMode('delete')} /> Delete them</label>
+          </div>
+          {mode === 'move' && (
+            <div className="form-group"><label>Destination</label><select value={targetGroupId} onChange={(e) => setTargetGroupId(e.target.value)}>
+              {otherGroups.map(g => <option key={g.id} value={g.id}>{g.name}</option>)}
+            </select></div>
+          )}
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleClose}>Cancel</button>
+            <button type="submit" className="btn btn-danger" autoFocus>Delete Group</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  EMBED_LOAD_TIMEOUT_MS, EmbedPanelState, EmbedTab, FramingCheck, MIN_PANEL_WIDTH, activateTab, checkFraming, closeTab, markFramingRefused,
+  toggleSplit,
+} from '../embeds';
+import { openLinkTarget } from '../linkHandlers';
+
+const RESIZE_STEP = 40;
+
+// 'slow' pages may still turn up; 'refused' ones were blocked from showing in a frame.
+// 'unconfirmed' ones loaded something that can't be looked into: the page, or an error page.
+type LoadState = 'loading' | 'loaded' | 'unconfirmed' | 'slow' | 'refused';
+
+const LOAD_STATES: Record<FramingCheck, LoadState> = { shown: 'loaded', refused: 'refused', unknown: 'unconfirmed' };
+
+const clampWidth = (width: number) => Math.max(MIN_PANEL_WIDTH, Math.min(window.innerWidth - MIN_PANEL_WIDTH, width));
+
+// One tab's page. It stays mounted while hidden, so switching tabs keeps where each page was.
+const EmbedFrame: React.FC<{
+  tab: EmbedTab;
+  placement: 'main' | 'split' | null;
+  onClose: () => void;
+}> = ({ tab, placement, onClose }) => {
+  const [loadState, setLoadState] = useState<LoadState>('loading');
+  const [reloadCount, setReloadCount] = useState(0);
+  const frameRef = useRef<HTMLIFrameElement>(null);
+
+  useEffect(() => {
+    setLoadState('loading');
+    const timer = setTimeout(() => setLoadState(prev => (prev === 'loading' ? 'slow' : prev)), EMBED_LOAD_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [tab.url, reloadCount]);
+
+  // Remembered, so the next open of this site goes straight to a new tab.
+  useEffect(() => {
+    if (loadState === 'refused') markFramingRefused(tab.url);
+  }, [loadState, tab.url]);
+
+  const handleLoad = () => {
+    if (frameRef.current) setLoadState(LOAD_STATES[checkFraming(frameRef.current)]);
+  };
+
+  const openInNewTab = () => openLinkTarget({ href: tab.url });
+
+  // Said by the user rather than seen here, but it means the same: this site opens in a new tab.
+  const handleNotShown = () => {
+    markFramingRefused(tab.url);
+    openInNewTab();
+    onClose();
+  };
+
+  return (
+    <section className={`embed-pane ${placement ? `is-${placement}` : ''}`} hidden={!placement} aria-label={tab.name}>
+      <div className="embed-pane-bar">
+        <span className="embed-pane-title" title={tab.url}>{tab.name}</span>
+        {loadState === 'loading' && <span className="embed-pane-status">Loading…</span>}
+        <button className="btn icon-btn" onClick={() => setReloadCount(n => n + 1)} title="Reload" aria-label={`Reload ${tab.name}`}>↻</button>
+        <button className="btn icon-btn" onClick={openInNewTab} title="Open in new tab" aria-label={`Open ${tab.name} in a new tab`}>↗</button>
+        <button className="btn icon-btn" onClick={onClose} title="Close tab" aria-label={`Close ${tab.name}`}>&times;</button>
+      </div>
+      {loadState === 'unconfirmed' && (
+        <div className="embed-unconfirmed" role="status">
+          <span>Blank or an error? Some sites don't allow being shown inside another page.</span>
+          <button className="btn btn-secondary" onClick={handleNotShown}>Open in new tab</button>
+          <button className="btn icon-btn" onClick={() => setLoadState('loaded')} title="Dismiss" aria-label="Dismiss">&times;</button>
+        </div>
+      )}
+      <iframe key={reloadCount} ref={frameRef} src={tab.url} title={tab.name} onLoad={handleLoad} allowFullScreen />
+      {(loadState === 'slow' || loadState === 'refused') && (
+        <div className="embed-refused" role="alert">
+          <p>
+            {loadState === 'refused'
+              ? `${tab.name} can't be shown inside another page. From now on it opens in a new tab.`
+              : `${tab.name} hasn't loaded yet. Some sites don't allow being shown inside another page.`}
+          </p>
+          <button className="btn" onClick={() => { openInNewTab(); onClose(); }}>Open in new tab</button>
+          <button className="btn btn-secondary" onClick={() => setReloadCount(n => n + 1)}>Try again</button>
+        </div>
+      )}
+    </section>
+  );
+};
+
+// The docked workspace: favorites opened in the app, in tabs, optionally two side by side.
+export const EmbedPanel: React.FC<{
+  state: EmbedPanelState;
+  onChange: (update: (state: EmbedPanelState) => EmbedPanelState) => void;
+}> = ({ state, onChange }) => {
+  const { tabs, activeTabId, splitTabId, collapsed } = state;
+  // While the edge is dragged the width lives here, so the canvas isn't re-rendered on every move.
+  const [dragWidth, setDragWidth] = useState<number | null>(null);
+  if (tabs.length === 0) return null;
+  const width = dragWidth ?? clampWidth(state.width);
+
+  const handleResizeStart = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragWidth(width);
+  };
+
+  const handleResizeMove = (e: React.PointerEvent) => {
+    if (dragWidth !== null) setDragWidth(clampWidth(window.innerWidth - e.clientX));
+  };
+
+  const handleResizeEnd = () => {
+    if (dragWidth === null) return;
+    onChange(prev => ({ ...prev, width: dragWidth }));
+    setDragWidth(null);
+  };
+
+  const handleResizeKey = (e: React.KeyboardEvent) => {
+    const step = e.key === 'ArrowLeft' ? RESIZE_STEP : e.key === 'ArrowRight' ? -RESIZE_STEP : 0;
+    if (!step) return;
+    e.preventDefault();
+    onChange(prev => ({ ...prev, width: clampWidth(prev.width + step) }));
+  };
+
+  const handleTabClick = (e: React.MouseEvent, tab: EmbedTab) => {
+    onChange(prev => (e.shiftKey && tab.id !== prev.activeTabId ? toggleSplit(prev, tab.id) : activateTab(prev, tab.id)));
+  };
+
+  const close = (tabId: string) => onChange(prev => closeTab(prev, tabId));
+
+  // Hiding the panel keeps its frames mounted, so no page has to load again when it comes back.
+  return (
+    <aside
+      className={`embed-panel ${collapsed ? 'is-collapsed' : ''} ${dragWidth !== null ? 'is-resizing' : ''}`}
+      style={collapsed ? undefined : { width }}
+      aria-label="Workspace"
+    >
+      {collapsed && (
+        <button className="embed-expand" onClick={() => onChange(prev => ({ ...prev, collapsed: false }))} title="Show workspace">
+          ◂ {tabs.length} tab{tabs.length === 1 ? '' : 's'}
+        </button>
+      )}
+      {!collapsed && (
+        <div
+          className="embed-resize-handle"
+          role="separator"
+          aria-orientation="vertical"
+          aria-label="Resize workspace"
+          aria-valuenow={width}
+          tabIndex={0}
+          onPointerDown={handleResizeStart}
+          onPointerMove={handleResizeMove}
+          onPointerUp={handleResizeEnd}
+          onPointerCancel={handleResizeEnd}
+          onKeyDown={handleResizeKey}
+        />
+      )}
+      {!collapsed && (
+        <div className="embed-tab-strip">
+          <div className="embed-tabs" role="tablist" aria-label="Open favorites">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                role="tab"
+                aria-selected={tab.id === activeTabId}
+                className={`embed-tab ${tab.id === activeTabId ? 'is-active' : ''} ${tab.id === splitTabId ? 'is-split' : ''}`}
+                onClick={(e) => handleTabClick(e, tab)}
+                onAuxClick={(e) => { if (e.button === 1) close(tab.id); }}
+                title={`${tab.name}\nShift-click to show it beside the current tab`}
+              >
+                {tab.name}
+              </button>
+            ))}
+          </div>
+          <button
+            className={`btn icon-btn ${splitTabId ? 'is-active' : ''}`}
+            onClick={() => onChange(prev => toggleSplit(prev, prev.splitTabId ?? prev.activeTabId))}
+            disabled={tabs.length < 2}
+            title={splitTabId ? 'Show one tab' : 'Split view'}
+            aria-pressed={!!splitTabId}
+          >⫼</button>
+          <button className="btn icon-btn" onClick={() => onChange(prev => ({ ...prev, collapsed: true }))} title="Hide workspace">▸</button>
+          <button
+            className="btn icon-btn"
+            onClick={() => window.confirm(`Close all ${tabs.length} tabs?`) && onChange(prev => ({ ...prev, tabs: [], activeTabId: null, splitTabId: null }))}
+            title="Close all tabs"
+          >&times;</button>
+        </div>
+      )}
+      <div className="embed-panes" hidden={collapsed}>
+        {tabs.map(tab => (
+          <EmbedFrame
+            key={tab.id}
+            tab={tab}
+            placement={tab.id === activeTabId ? 'main' : tab.id === splitTabId ? 'split' : null}
+            onClose={() => close(tab.id)}
+          />
+        ))}
+      </div>
+    </aside>
+  );
+};
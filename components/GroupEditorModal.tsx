@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { Group } from '../types';
+
+const SUN_COLORS = ['#00c6ff', '#7c4dff', '#ff4081', '#ff9100', '#ffd600', '#00e676', '#1de9b6', '#ff5252'];
+
+export const GroupEditorModal: React.FC<{
+  group: Group;
+  onSave: (changes: Pick<Group, 'name' | 'color' | 'icon'>) => void;
+  onClose: () => void;
+}> = ({ group, onSave, onClose }) => {
+  const [name, setName] = useState(group.name);
+  const [icon, setIcon] = useState(group.icon ?? '');
+  const [color, setColor] = useState<string | undefined>(group.color);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsOpen(true), 10);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 400);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), color, icon: icon.trim() || undefined });
+    handleClose();
+  };
+
+  return (
+    <div className={`modal-overlay ${isOpen ? 'open' : ''}`} onClick={handleClose}>
+      <div className="modal-content" role="dialog" aria-modal="true" aria-labelledby="group-editor-title" onClick={(e) => e.stopPropagation()}>
+        <h3 id="group-editor-title">Edit Group</h3>
+        <form className="modal-form" onSubmit={handleSubmit}>
+          <div className="form-group"><label>Name</label><input type="text" value={name} onChange={(e) => setName(e.target.value)} required autoFocus /></div>
+          <div className="form-group"><label>Icon (emoji or symbol)</label><input type="text" value={icon} onChange={(e) => setIcon(e.target.value)} maxLength={4} placeholder="e.g. 📊" /></div>
+          <div className="form-group">
+            <label>Color</label>
+            <div className="color-swatches" role="radiogroup" aria-label="Sun color">
+              <button
+                type="button"
+                className={`color-swatch color-swatch-none ${color ? '' : 'is-selected'}`}
+                role="radio"
+                aria-checked={!color}
+                aria-label="Default color"
+                onClick={() => setColor(undefined)}
+              />
+              {SUN_COLORS.map(swatch => (
+                <button
+                  key={swatch}
+                  type="button"
+                  className={`color-swatch ${color === swatch ? 'is-selected' : ''}`}
+                  style={{ backgroundColor: swatch }}
+                  role="radio"
+                  aria-checked={color === swatch}
+                  aria-label={swatch}
+                  onClick={() => setColor(swatch)}
+                />
+              ))}
+              <input type="color" value={color ?? SUN_COLORS[0]} onChange={(e) => setColor(e.target.value)} aria-label="Custom color" />
+            </div>
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleClose}>Cancel</button>
+            <button type="submit" className="btn">Save Changes</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
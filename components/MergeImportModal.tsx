@@ -0,0 +1,138 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Favorite, Group } from '../types';
+import { ConflictResolution, MergeConflict, planMerge } from '../merge';
+
+const describeFavorite = (fav: Favorite) => `${fav.name} · ${fav.type} · ${fav.url}`;
+const describeGroup = (group: Group) => `${group.name} at (${Math.round(group.x)}, ${Math.round(group.y)})`;
+
+const ConflictRow: React.FC<{
+  conflict: MergeConflict;
+  resolution: ConflictResolution;
+  onChange: (resolution: ConflictResolution) => void;
+}> = ({ conflict, resolution, onChange }) => {
+  const title = conflict.kind === 'group'
+    ? `Group "${conflict.mine.name}"`
+    : `${conflict.reason === 'id' ? 'Same favorite' : 'Same URL'}: "${conflict.mine.name}"`;
+  const mine = conflict.kind === 'group' ? describeGroup(conflict.mine) : describeFavorite(conflict.mine);
+  const theirs = conflict.kind === 'group' ? describeGroup(conflict.theirs) : `${describeFavorite(conflict.theirs)} (in ${conflict.theirsGroupName})`;
+
+  return (
+    <li className="merge-conflict">
+      <div className="merge-conflict-title">{title}</div>
+      <div className="merge-conflict-side"><span>Mine</span>{mine}</div>
+      <div className="merge-conflict-side"><span>Theirs</span>{theirs}</div>
+      <div className="form-group radio-group" role="radiogroup" aria-label={title}>
+        {(['mine', 'theirs', 'both'] as ConflictResolution[]).map(option => (
+          <label key={option}>
+            <input type="radio" name={conflict.key} value={option} checked={resolution === option} onChange={() => onChange(option)} />
+            {option === 'mine' ? 'Keep mine' : option === 'theirs' ? 'Take theirs' : 'Keep both'}
+          </label>
+        ))}
+      </div>
+    </li>
+  );
+};
+
+export const MergeImportModal: React.FC<{
+  currentGroups: Group[];
+  importedGroups: Group[];
+  onMerge: (resolutions: Record<string, ConflictResolution>) => void;
+  onReplace: () => void;
+  onAddAsBoard: () => void;
+  onClose: () => void;
+}> = ({ currentGroups, importedGroups, onMerge, onReplace, onAddAsBoard, onClose }) => {
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsOpen(true), 10);
+    return () => clearTimeout(timer);
+  }, []);
+
+  const plan = useMemo(() => planMerge(currentGroups, importedGroups), [currentGroups, importedGroups]);
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 400);
+  };
+
+  const resolveAll = (resolution: ConflictResolution) => {
+    setResolutions(Object.fromEntries(plan.conflicts.map(c => [c.key, resolution])));
+  };
+
+  const handleMerge = (e: React.FormEvent) => {
+    e.preventDefault();
+    onMerge(resolutions);
+    handleClose();
+  };
+
+  const handleReplace = () => {
+    if (window.confirm("This will overwrite your current layout. Are you sure?")) {
+      onReplace();
+      handleClose();
+    }
+  };
+
+  const handleAddAsBoard = () => {
+    onAddAsBoard();
+    handleClose();
+  };
+
+  const nothingToMerge = plan.newGroups.length === 0 && plan.newFavorites.length === 0 && plan.conflicts.length === 0;
+
+  return (
+    <div className={`modal-overlay ${isOpen ? 'open' : ''}`} onClick={handleClose}>
+      <div className="modal-content merge-modal" role="dialog" aria-modal="true" aria-labelledby="merge-title" onClick={(e) => e.stopPropagation()}>
+        <h3 id="merge-title">Import Layout</h3>
+        <form className="modal-form" onSubmit={handleMerge}>
+          <div className="merge-sections">
+            {plan.newGroups.length > 0 && (
+              <section>
+                <h4>New groups ({plan.newGroups.length})</h4>
+                <ul className="import-summary">
+                  {plan.newGroups.map(g => <li key={g.id}>{g.name} — {g.favorites.length} favorite{g.favorites.length === 1 ? '' : 's'}</li>)}
+                </ul>
+              </section>
+            )}
+            {plan.newFavorites.length > 0 && (
+              <section>
+                <h4>New favorites in existing groups ({plan.newFavorites.length})</h4>
+                <ul className="import-summary">
+                  {plan.newFavorites.map(({ favorite, groupName }) => <li key={favorite.id}>{favorite.name} → {groupName}</li>)}
+                </ul>
+              </section>
+            )}
+            {plan.conflicts.length > 0 && (
+              <section>
+                <h4>Conflicts ({plan.conflicts.length})</h4>
+                <div className="merge-bulk-actions">
+                  <button type="button" className="btn btn-secondary" onClick={() => resolveAll('mine')}>All mine</button>
+                  <button type="button" className="btn btn-secondary" onClick={() => resolveAll('theirs')}>All theirs</button>
+                  <button type="button" className="btn btn-secondary" onClick={() => resolveAll('both')}>Keep all</button>
+                </div>
+                <ul className="merge-conflicts">
+                  {plan.conflicts.map(conflict => (
+                    <ConflictRow
+                      key={conflict.key}
+                      conflict={conflict}
+                      resolution={resolutions[conflict.key] ?? 'mine'}
+                      onChange={(resolution) => setResolutions(prev => ({ ...prev, [conflict.key]: resolution }))}
+                    />
+                  ))}
+                </ul>
+              </section>
+            )}
+            {nothingToMerge && <p className="modal-text">Everything in this file is already on your canvas.</p>}
+            {plan.unchangedCount > 0 && <p className="merge-unchanged">{plan.unchangedCount} identical favorite{plan.unchangedCount === 1 ? '' : 's'} will be skipped.</p>}
+          </div>
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleClose}>Cancel</button>
+            <button type="button" className="btn btn-danger" onClick={handleReplace}>Replace All</button>
+            <button type="button" className="btn btn-secondary" onClick={handleAddAsBoard}>New Board</button>
+            <button type="submit" className="btn" disabled={nothingToMerge}>Merge</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
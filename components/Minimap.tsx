@@ -0,0 +1,102 @@
+import React, { useRef } from 'react';
+import { ViewState } from '../types';
+import { PlacedGroup, visibleOrbitExtent } from '../layout';
+import { Bounds, Size, boundsOf, unionBounds, visibleBounds } from '../viewport';
+
+const MINIMAP_WIDTH = 200;
+const MINIMAP_HEIGHT = 140;
+const MINIMAP_PADDING = 8;
+
+interface MinimapTransform {
+  bounds: Bounds;
+  scale: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+// Fits everything (suns and the current viewport) into the minimap, centered.
+const createTransform = (groups: PlacedGroup[], view: ViewState, size: Size): MinimapTransform => {
+  const viewport = visibleBounds(view, size);
+  const content = boundsOf(groups.map(g => ({ x: g.x, y: g.y, radius: visibleOrbitExtent(g) })));
+  const bounds = content ? unionBounds(content, viewport) : viewport;
+  const scale = Math.min(
+    (MINIMAP_WIDTH - MINIMAP_PADDING * 2) / (bounds.maxX - bounds.minX),
+    (MINIMAP_HEIGHT - MINIMAP_PADDING * 2) / (bounds.maxY - bounds.minY),
+  );
+  return {
+    bounds,
+    scale,
+    offsetX: (MINIMAP_WIDTH - (bounds.maxX - bounds.minX) * scale) / 2,
+    offsetY: (MINIMAP_HEIGHT - (bounds.maxY - bounds.minY) * scale) / 2,
+  };
+};
+
+// Pointer-only overview; keyboard users get the same reach from "Fit all" and the fly-to actions.
+export const Minimap: React.FC<{
+  groups: PlacedGroup[];
+  view: ViewState;
+  size: Size;
+  onCenter: (point: { x: number; y: number }) => void;
+}> = ({ groups, view, size, onCenter }) => {
+  // Frozen while dragging, otherwise the map would rescale under the pointer as the viewport moves.
+  const dragTransform = useRef<MinimapTransform | null>(null);
+  const transform = dragTransform.current ?? createTransform(groups, view, size);
+  const { bounds, scale, offsetX, offsetY } = transform;
+
+  const toMap = (x: number, y: number) => ({ x: offsetX + (x - bounds.minX) * scale, y: offsetY + (y - bounds.minY) * scale });
+
+  const centerAt = (e: React.PointerEvent<SVGSVGElement>, t: MinimapTransform) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onCenter({
+      x: t.bounds.minX + (e.clientX - rect.left - t.offsetX) / t.scale,
+      y: t.bounds.minY + (e.clientY - rect.top - t.offsetY) / t.scale,
+    });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragTransform.current = transform;
+    centerAt(e, transform);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragTransform.current) centerAt(e, dragTransform.current);
+  };
+
+  const handlePointerUp = () => {
+    dragTransform.current = null;
+  };
+
+  const viewport = visibleBounds(view, size);
+  const viewportTopLeft = toMap(viewport.minX, viewport.minY);
+
+  return (
+    <div className="minimap" aria-hidden="true">
+      <svg
+        width={MINIMAP_WIDTH}
+        height={MINIMAP_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {groups.map(group => {
+          const { x, y } = toMap(group.x, group.y);
+          return (
+            <g key={group.id}>
+              <circle className="minimap-system" cx={x} cy={y} r={Math.max(2, visibleOrbitExtent(group) * scale)} />
+              <circle className="minimap-sun" cx={x} cy={y} r={group.depth > 0 ? 1.5 : 2.5} />
+            </g>
+          );
+        })}
+        <rect
+          className="minimap-viewport"
+          x={viewportTopLeft.x}
+          y={viewportTopLeft.y}
+          width={(viewport.maxX - viewport.minX) * scale}
+          height={(viewport.maxY - viewport.minY) * scale}
+        />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Workspace } from '../types';
+import { ValidationIssue, loadLastGoodSnapshot } from '../storage';
+import { downloadText } from '../utils';
+
+export const RecoveryScreen: React.FC<{
+  errors: ValidationIssue[];
+  raw: string;
+  getSampleData: () => Workspace;
+  onRecover: (data: Workspace) => void;
+}> = ({ errors, raw, getSampleData, onRecover }) => {
+  const snapshot = loadLastGoodSnapshot();
+
+  const handleDownloadRaw = () => downloadText(raw, "visual-favorites-unreadable.json");
+
+  const handleStartFresh = () => {
+    if (window.confirm("Start over with the sample layout? Download the unreadable data first if you want to keep it.")) {
+      onRecover(getSampleData());
+    }
+  };
+
+  return (
+    <div className="recovery-screen">
+      <div className="modal-content recovery-content" role="alertdialog" aria-labelledby="recovery-title">
+        <h3 id="recovery-title">Your saved favorites couldn't be loaded</h3>
+        <p className="modal-text">The stored data is damaged or was written in a format this version doesn't understand. Nothing has been overwritten yet.</p>
+        <ul className="recovery-errors">
+          {errors.slice(0, 20).map((issue, i) => (
+            <li key={i}><code>{issue.path || '(root)'}</code> {issue.message}</li>
+          ))}
+          {errors.length > 20 && <li>…and {errors.length - 20} more</li>}
+        </ul>
+        <div className="modal-actions recovery-actions">
+          <button className="btn btn-secondary" onClick={handleDownloadRaw}>Download raw data</button>
+          <button className="btn btn-secondary" onClick={handleStartFresh}>Start fresh</button>
+          <button className="btn" disabled={!snapshot} onClick={() => snapshot && onRecover(snapshot.data)}>
+            {snapshot ? `Restore snapshot from ${new Date(snapshot.savedAt).toLocaleString()}` : 'No snapshot available'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
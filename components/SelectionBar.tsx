@@ -0,0 +1,25 @@
+import React from 'react';
+import { Selection, describeSelection, selectionSize } from '../selection';
+
+// Bulk actions for whatever is currently selected on the canvas.
+export const SelectionBar: React.FC<{
+  selection: Selection;
+  onMove: (e: React.MouseEvent<HTMLElement>) => void;
+  onTag: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}> = ({ selection, onMove, onTag, onExport, onDelete, onClear }) => {
+  if (selectionSize(selection) === 0) return null;
+  const hasFavorites = selection.favoriteIds.length > 0;
+  return (
+    <div className="selection-bar" role="toolbar" aria-label="Selection">
+      <span className="selection-bar-count">{describeSelection(selection)} selected</span>
+      <button className="btn" onClick={onMove} disabled={!hasFavorites} aria-haspopup="menu">Move to…</button>
+      <button className="btn" onClick={onTag}>Tag…</button>
+      <button className="btn" onClick={onExport}>Export</button>
+      <button className="btn btn-danger" onClick={onDelete}>Delete</button>
+      <button className="btn icon-btn" onClick={onClear} aria-label="Clear selection" title="Clear selection (Escape)">&times;</button>
+    </div>
+  );
+};
@@ -0,0 +1,97 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Group } from '../types';
+import { groupPath } from '../hierarchy';
+import { ARCHIVE_GROUP_NAME, DEFAULT_STALE_DAYS, UsageStats, describeLastOpened, staleFavorites } from '../usage';
+
+// Lists favorites that haven't been opened in a while so they can be archived or deleted in bulk.
+export const StaleFavoritesModal: React.FC<{
+  groups: Group[];
+  usage: UsageStats;
+  onArchive: (favoriteIds: string[]) => void;
+  onDelete: (favoriteIds: string[]) => void;
+  onClose: () => void;
+}> = ({ groups, usage, onArchive, onDelete, onClose }) => {
+  const [days, setDays] = useState(DEFAULT_STALE_DAYS);
+  const [checkedIds, setCheckedIds] = useState<string[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setIsOpen(true), 10);
+    return () => clearTimeout(timer);
+  }, []);
+
+  // Favorites already in the archive aren't stale, they're put away.
+  const archiveIds = useMemo(() => new Set(groups.filter(g => g.name === ARCHIVE_GROUP_NAME).map(g => g.id)), [groups]);
+  const stale = useMemo(
+    () => staleFavorites(groups, usage, days).filter(s => !archiveIds.has(s.groupId)),
+    [groups, usage, days, archiveIds]
+  );
+  const checked = checkedIds.filter(id => stale.some(s => s.favorite.id === id));
+
+  const handleClose = () => {
+    setIsOpen(false);
+    setTimeout(onClose, 400);
+  };
+
+  const toggle = (id: string) => setCheckedIds(prev => (prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]));
+
+  const handleArchive = () => {
+    onArchive(checked);
+    handleClose();
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${checked.length} favorite${checked.length === 1 ? '' : 's'}?`)) return;
+    onDelete(checked);
+    handleClose();
+  };
+
+  return (
+    <div className={`modal-overlay ${isOpen ? 'open' : ''}`} onClick={handleClose}>
+      <div className="modal-content stale-modal" role="dialog" aria-modal="true" aria-labelledby="stale-title" onClick={(e) => e.stopPropagation()}>
+        <h3 id="stale-title">Unused Favorites</h3>
+        <div className="modal-form">
+          <div className="form-group stale-days">
+            <label htmlFor="stale-days">Not opened in the last</label>
+            <input
+              id="stale-days"
+              type="number"
+              min={1}
+              value={days}
+              onChange={(e) => setDays(Math.max(1, Number(e.target.value) || 1))}
+            />
+            <span>days</span>
+          </div>
+          {stale.length === 0 ? (
+            <p className="modal-text">Every favorite has been opened in the last {days} day{days === 1 ? '' : 's'}.</p>
+          ) : (
+            <>
+              <div className="merge-bulk-actions">
+                <button type="button" className="btn btn-secondary" onClick={() => setCheckedIds(stale.map(s => s.favorite.id))}>Select all</button>
+                <button type="button" className="btn btn-secondary" onClick={() => setCheckedIds([])}>Select none</button>
+              </div>
+              <ul className="stale-list">
+                {stale.map(({ groupId, favorite, usage: entry }) => (
+                  <li key={favorite.id}>
+                    <label>
+                      <input type="checkbox" checked={checked.includes(favorite.id)} onChange={() => toggle(favorite.id)} />
+                      <span className="stale-name">{favorite.name}</span>
+                      <span className="stale-meta">{groupPath(groups, groupId)} · {describeLastOpened(entry)}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+          <div className="modal-actions">
+            <button type="button" className="btn btn-secondary" onClick={handleClose}>Close</button>
+            <button type="button" className="btn btn-danger" onClick={handleDelete} disabled={checked.length === 0}>Delete</button>
+            <button type="button" className="btn" onClick={handleArchive} disabled={checked.length === 0}>
+              Archive{checked.length ? ` ${checked.length}` : ''}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+
+export interface StorageStatus {
+  used: number;
+  quota: number;
+  // Set when the last save didn't make it to storage.
+  error: 'quota' | 'failed' | null;
+}
+
+const WARNING_RATIO = 0.8;
+
+const formatSize = (chars: number) => `${(chars / 1_000_000).toFixed(chars < 100_000 ? 2 : 1)} MB`;
+
+export const StorageIndicator: React.FC<{ status: StorageStatus }> = ({ status }) => {
+  const ratio = Math.min(1, status.used / status.quota);
+  const level = status.error ? 'is-error' : ratio >= WARNING_RATIO ? 'is-warning' : '';
+  const label = `Storage: ${formatSize(status.used)} of about ${formatSize(status.quota)} used`;
+  return (
+    <div
+      className={`storage-indicator ${level}`}
+      role="meter"
+      aria-label={label}
+      aria-valuemin={0}
+      aria-valuemax={100}
+      aria-valuenow={Math.round(ratio * 100)}
+      title={label}
+    >
+      <div className="storage-indicator-bar" style={{ width: `${ratio * 100}%` }} />
+    </div>
+  );
+};
+
+// Shown while changes can't be saved, with a way to get the data out before it is lost.
+export const StorageAlert: React.FC<{ status: StorageStatus; onExport: () => void }> = ({ status, onExport }) => {
+  if (!status.error) return null;
+  return (
+    <div className="storage-alert" role="alert">
+      <span>
+        {status.error === 'quota'
+          ? "Browser storage is full, so your latest changes aren't saved. Export a backup, then remove large images or boards you no longer need."
+          : "Your latest changes couldn't be saved. Export a backup to keep them."}
+      </span>
+      <button className="btn" onClick={onExport}>Export backup</button>
+    </div>
+  );
+};
@@ -0,0 +1,28 @@
+import React from 'react';
+import { ConcurrentEdit } from '../merge';
+
+// Favorites edited here and in another tab at the same time. Our version was kept; each one can
+// be switched to the other tab's version instead.
+export const SyncConflictNotice: React.FC<{
+  conflicts: ConcurrentEdit[];
+  onUseTheirs: (conflict: ConcurrentEdit) => void;
+  onDismiss: () => void;
+}> = ({ conflicts, onUseTheirs, onDismiss }) => {
+  if (conflicts.length === 0) return null;
+  return (
+    <div className="sync-conflict-notice" role="alert">
+      <p>
+        {conflicts.length === 1 ? 'This favorite was' : 'These favorites were'} also changed in another tab. Your version was kept.
+      </p>
+      <ul>
+        {conflicts.map(conflict => (
+          <li key={conflict.mine.id}>
+            <span>"{conflict.mine.name}"{conflict.theirs.name !== conflict.mine.name && ` ("${conflict.theirs.name}" there)`}</span>
+            <button className="btn btn-secondary" onClick={() => onUseTheirs(conflict)}>Use theirs</button>
+          </li>
+        ))}
+      </ul>
+      <button className="btn icon-btn" onClick={onDismiss} aria-label="Dismiss" title="Dismiss">&times;</button>
+    </div>
+  );
+};
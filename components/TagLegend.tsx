@@ -0,0 +1,28 @@
+import React from 'react';
+import { TagCount } from '../tags';
+
+// Picking a tag lights up every planet that carries it, across all groups.
+export const TagLegend: React.FC<{
+  tags: TagCount[];
+  activeTag: string | null;
+  onToggle: (tag: string) => void;
+}> = ({ tags, activeTag, onToggle }) => {
+  if (tags.length === 0) return null;
+  return (
+    <div className="tag-legend" role="group" aria-label="Tags">
+      {tags.map(({ tag, count }) => {
+        const isActive = activeTag?.toLowerCase() === tag.toLowerCase();
+        return (
+          <button
+            key={tag}
+            className={`tag-chip ${isActive ? 'is-active' : ''}`}
+            aria-pressed={isActive}
+            onClick={() => onToggle(tag)}
+          >
+            #{tag} <span className="tag-count">{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
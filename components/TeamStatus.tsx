@@ -0,0 +1,32 @@
+import React from 'react';
+import { Peer, TeamSyncState } from '../teamSync';
+
+const describePeers = (peers: Peer[]) =>
+  peers.length === 0 ? 'Nobody else is here' : `Also here: ${peers.map(p => p.name).join(', ')}`;
+
+// Whether a team board is connected, who else has it open and how many changes wait to be sent.
+export const TeamStatus: React.FC<{ state: TeamSyncState | null }> = ({ state }) => {
+  if (!state) return null;
+  const { status, peers, queued } = state;
+  const label = status === 'online'
+    ? `Live · ${peers.length + 1} here`
+    : status === 'connecting' ? 'Connecting…' : `Offline${queued ? ` · ${queued} queued` : ''}`;
+  const title = status === 'offline'
+    ? "Can't reach the sync server. Changes are kept here and sent once it's back."
+    : describePeers(peers);
+  return (
+    <div className={`team-status is-${status}`} role="status" title={title}>
+      <span className="team-status-dot" aria-hidden="true" />
+      <span>{label}</span>
+      {status === 'online' && (
+        <span className="team-peers" aria-label={describePeers(peers)}>
+          {peers.map(p => (
+            <span key={p.clientId} className="team-peer" style={{ '--peer-color': p.color } as React.CSSProperties} title={p.name}>
+              {p.name.slice(0, 1).toUpperCase()}
+            </span>
+          ))}
+        </span>
+      )}
+    </div>
+  );
+};
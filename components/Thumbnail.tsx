@@ -0,0 +1,28 @@
+import React from 'react';
+import { Favorite } from '../types';
+import { ImageStore, resolveImageUrl } from '../images';
+import { generateDisplayText, monogramHue, useFavicon } from '../thumbnails';
+
+// A favorite's picture, its display text, or failing both its site icon or a generated monogram.
+// A missing stored image or an unreachable icon falls through to the next option.
+export const Thumbnail: React.FC<{ favorite: Favorite; images: ImageStore; alt?: string }> = ({ favorite, images, alt = favorite.name }) => {
+  const favicon = useFavicon(favorite);
+  const src = resolveImageUrl(favorite.imageUrl, images);
+  if (src) return <img src={src} alt={alt} className="thumbnail" draggable={false} />;
+  if (favorite.displayText) {
+    return (
+      <div className="thumbnail text-thumbnail">
+        <span>{favorite.displayText}</span>
+      </div>
+    );
+  }
+  if (favicon) return <img src={favicon} alt={alt} className="thumbnail favicon-thumbnail" draggable={false} />;
+  return (
+    <div
+      className={`thumbnail text-thumbnail monogram-thumbnail monogram-${favorite.type}`}
+      style={{ '--monogram-hue': monogramHue(favorite.name) } as React.CSSProperties}
+    >
+      <span>{generateDisplayText(favorite.name)}</span>
+    </div>
+  );
+};
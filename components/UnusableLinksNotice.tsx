@@ -0,0 +1,29 @@
+import React from 'react';
+import { Favorite } from '../types';
+import { typeDescription } from '../linkHandlers';
+
+// Favorites on this board whose link can't be opened: an old "#" placeholder or a hand-edited
+// file. They stay on the board, flagged, until their link is fixed.
+export const UnusableLinksNotice: React.FC<{
+  favorites: Favorite[];
+  onEdit: (favorite: Favorite) => void;
+  onDismiss: () => void;
+}> = ({ favorites, onEdit, onDismiss }) => {
+  if (favorites.length === 0) return null;
+  return (
+    <div className="sync-conflict-notice unusable-links-notice" role="alert">
+      <p>
+        {favorites.length === 1 ? "This favorite's link" : "These favorites' links"} can't be opened. Edit them to fix the address.
+      </p>
+      <ul>
+        {favorites.map(fav => (
+          <li key={fav.id}>
+            <span>"{fav.name}" <code title={`Not a valid ${typeDescription(fav.type)} link`}>{fav.url || '(empty)'}</code></span>
+            <button className="btn btn-secondary" onClick={() => onEdit(fav)}>Edit…</button>
+          </li>
+        ))}
+      </ul>
+      <button className="btn icon-btn" onClick={onDismiss} aria-label="Dismiss" title="Dismiss">&times;</button>
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import { Favorite } from './types';
+import { createId } from './utils';
+
+// --- CONSTANTS ---
+const EMBED_PANEL_KEY = 'visualFavoritesEmbedPanel';
+const REFUSED_HOSTS_KEY = 'visualFavoritesFramingRefused';
+export const MIN_PANEL_WIDTH = 320;
+const DEFAULT_PANEL_WIDTH = 560;
+// A page that hasn't loaded by then is treated as one that won't load in a frame.
+export const EMBED_LOAD_TIMEOUT_MS = 10_000;
+
+// --- DATA TYPES ---
+export interface EmbedTab {
+  id: string;
+  favoriteId: string;
+  name: string;
+  url: string;
+}
+
+// The docked workspace panel: favorites opened inside the app, each in its own tab.
+export interface EmbedPanelState {
+  tabs: EmbedTab[];
+  activeTabId: string | null;
+  // Shown beside the active tab while the panel is split.
+  splitTabId: string | null;
+  // Folded down to a narrow strip; the tabs keep their pages.
+  collapsed: boolean;
+  width: number;
+}
+
+export const EMPTY_EMBED_PANEL: EmbedPanelState = { tabs: [], activeTabId: null, splitTabId: null, collapsed: false, width: DEFAULT_PANEL_WIDTH };
+
+// --- TABS ---
+// A favorite that is already open gets its tab back rather than a second one.
+export const openTab = (state: EmbedPanelState, favorite: Favorite): EmbedPanelState => {
+  const existing = state.tabs.find(t => t.favoriteId === favorite.id && t.url === favorite.url);
+  if (existing) return { ...state, activeTabId: existing.id, collapsed: false, splitTabId: state.splitTabId === existing.id ? null : state.splitTabId };
+  const tab: EmbedTab = { id: createId('tab'), favoriteId: favorite.id, name: favorite.name, url: favorite.url };
+  return { ...state, tabs: [...state.tabs, tab], activeTabId: tab.id, collapsed: false };
+};
+
+// The neighbour of a closed active tab takes its place.
+export const closeTab = (state: EmbedPanelState, tabId: string): EmbedPanelState => {
+  const index = state.tabs.findIndex(t => t.id === tabId);
+  if (index < 0) return state;
+  const tabs = state.tabs.filter(t => t.id !== tabId);
+  const splitTabId = state.splitTabId === tabId ? null : state.splitTabId;
+  let activeTabId = state.activeTabId;
+  if (activeTabId === tabId) {
+    const candidates = tabs.filter(t => t.id !== splitTabId);
+    activeTabId = (candidates[Math.min(index, candidates.length - 1)] ?? tabs[0])?.id ?? null;
+  }
+  return { ...state, tabs, activeTabId, splitTabId: splitTabId === activeTabId ? null : splitTabId };
+};
+
+export const activateTab = (state: EmbedPanelState, tabId: string): EmbedPanelState => ({
+  ...state,
+  activeTabId: tabId,
+  // Picking the tab on the other side of the split swaps the two.
+  splitTabId: state.splitTabId === tabId ? state.activeTabId : state.splitTabId,
+});
+
+// Shows `tabId` beside the active tab, or ends the split when it is already there.
+export const toggleSplit = (state: EmbedPanelState, tabId: string): EmbedPanelState => {
+  if (state.splitTabId === tabId) return { ...state, splitTabId: null };
+  if (tabId !== state.activeTabId) return { ...state, splitTabId: tabId };
+  // Splitting the active tab pairs it with the first other tab.
+  const other = state.tabs.find(t => t.id !== tabId);
+  return other ? { ...state, activeTabId: other.id, splitTabId: tabId } : state;
+};
+
+// Tab titles follow renamed favorites. A deleted favorite's tab stays open until it is closed.
+export const syncTabs = (state: EmbedPanelState, favorites: Favorite[]): EmbedPanelState => {
+  const byId = new Map(favorites.map(f => [f.id, f]));
+  let changed = false;
+  const tabs = state.tabs.map(tab => {
+    const favorite = byId.get(tab.favoriteId);
+    if (!favorite || favorite.name === tab.name) return tab;
+    changed = true;
+    return { ...tab, name: favorite.name };
+  });
+  return changed ? { ...state, tabs } : state;
+};
+
+// --- FRAMING ---
+const hostOf = (url: string) => {
+  try {
+    return new URL(url, window.location.href).host;
+  } catch {
+    return '';
+  }
+};
+
+const loadRefusedHosts = (): string[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REFUSED_HOSTS_KEY) ?? '[]');
+    return Array.isArray(parsed) ? parsed.filter((h): h is string => typeof h === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+// Sites that wouldn't show in a frame open straight in a new tab from then on.
+export const isFramingRefused = (url: string) => {
+  const host = hostOf(url);
+  return !!host && loadRefusedHosts().includes(host);
+};
+
+export const markFramingRefused = (url: string) => {
+  const host = hostOf(url);
+  const hosts = loadRefusedHosts();
+  if (host && !hosts.includes(host)) localStorage.setItem(REFUSED_HOSTS_KEY, JSON.stringify([...hosts, host]));
+};
+
+// What a frame's load says about its page. Some browsers that refuse to frame a page show a blank
+// document of their own instead; when that one is readable and empty, the site said no. Usually
+// nothing can be read, though: a site's page and the error page shown when it refused framing
+// (X-Frame-Options, CSP frame-ancestors) both belong to another origin, so it may be either.
+export type FramingCheck = 'shown' | 'refused' | 'unknown';
+
+export const checkFraming = (frame: HTMLIFrameElement): FramingCheck => {
+  try {
+    const doc = frame.contentDocument;
+    if (!doc) return 'unknown';
+    return doc.URL === 'about:blank' && !doc.body?.childElementCount ? 'refused' : 'shown';
+  } catch {
+    return 'unknown';
+  }
+};
+
+// --- PERSISTENCE ---
+export const loadEmbedPanel = (): EmbedPanelState => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(EMBED_PANEL_KEY) ?? 'null');
+    if (!parsed || !Array.isArray(parsed.tabs)) return EMPTY_EMBED_PANEL;
+    // Only web pages are ever framed; anything else here was not written by this app.
+    const tabs: EmbedTab[] = parsed.tabs.filter((t: EmbedTab) =>
+      t && typeof t.id === 'string' && typeof t.favoriteId === 'string' && typeof t.name === 'string'
+      && typeof t.url === 'string' && /^https?:\/\//i.test(t.url)
+    );
+    const has = (id: unknown) => typeof id === 'string' && tabs.some(t => t.id === id);
+    const activeTabId = has(parsed.activeTabId) ? parsed.activeTabId : tabs[0]?.id ?? null;
+    return {
+      tabs,
+      activeTabId,
+      splitTabId: has(parsed.splitTabId) && parsed.splitTabId !== activeTabId ? parsed.splitTabId : null,
+      collapsed: parsed.collapsed === true,
+      width: typeof parsed.width === 'number' ? Math.max(MIN_PANEL_WIDTH, parsed.width) : DEFAULT_PANEL_WIDTH,
+    };
+  } catch {
+    return EMPTY_EMBED_PANEL;
+  }
+};
+
+export const saveEmbedPanel = (state: EmbedPanelState) => {
+  localStorage.setItem(EMBED_PANEL_KEY, JSON.stringify(state));
+};
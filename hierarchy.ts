@@ -0,0 +1,87 @@
+import { Group } from './types';
+
+// --- DATA TYPES ---
+// The serialized form: sub-groups are nested under `children` instead of pointing at a parent.
+export type GroupNode = Omit<Group, 'parentId'> & { children?: GroupNode[] };
+
+// --- QUERIES ---
+const exists = (groups: Group[], id: string | undefined) => !!id && groups.some(g => g.id === id);
+
+export const isRootGroup = (groups: Group[], group: Group) => !exists(groups, group.parentId);
+
+export const childrenOf = (groups: Group[], id: string) => groups.filter(g => g.parentId === id);
+
+export const descendantIds = (groups: Group[], id: string) => {
+  const found = new Set<string>();
+  const visit = (parentId: string) => childrenOf(groups, parentId).forEach(child => {
+    if (found.has(child.id)) return;
+    found.add(child.id);
+    visit(child.id);
+  });
+  visit(id);
+  return found;
+};
+
+export const ancestorIds = (groups: Group[], id: string) => {
+  const byId = new Map(groups.map(g => [g.id, g]));
+  const ancestors: string[] = [];
+  let parentId = byId.get(id)?.parentId;
+  while (parentId && byId.has(parentId) && !ancestors.includes(parentId)) {
+    ancestors.push(parentId);
+    parentId = byId.get(parentId)!.parentId;
+  }
+  return ancestors;
+};
+
+export const groupPath = (groups: Group[], id: string) => {
+  const byId = new Map(groups.map(g => [g.id, g]));
+  return [...ancestorIds(groups, id).reverse(), id].map(groupId => byId.get(groupId)?.name ?? '').join(' › ');
+};
+
+// --- MUTATIONS ---
+export const canNest = (groups: Group[], id: string, parentId: string) =>
+  id !== parentId && !descendantIds(groups, id).has(parentId);
+
+export const nestGroup = (groups: Group[], id: string, parentId: string) =>
+  canNest(groups, id, parentId) ? groups.map(g => g.id === id ? { ...g, parentId } : g) : groups;
+
+export const detachGroup = (groups: Group[], id: string, position: { x: number; y: number }) =>
+  groups.map(g => {
+    if (g.id !== id) return g;
+    const { parentId, ...rest } = g;
+    return { ...rest, ...position };
+  });
+
+// Removing a sun hands its sub-systems to its own parent, or leaves them as free suns
+// at `positions` (their current on-screen spot) when it was a root.
+export const removeGroup = (groups: Group[], id: string, positions: Map<string, { x: number; y: number }>) => {
+  const removed = groups.find(g => g.id === id);
+  return groups
+    .filter(g => g.id !== id)
+    .map(g => {
+      if (g.parentId !== id) return g;
+      if (removed?.parentId) return { ...g, parentId: removed.parentId };
+      const { parentId, ...rest } = g;
+      return { ...rest, ...(positions.get(g.id) ?? { x: g.x, y: g.y }) };
+    });
+};
+
+// --- TREE CONVERSION ---
+export const toGroupTree = (groups: Group[]): GroupNode[] => {
+  const build = (group: Group, seen: Set<string>): GroupNode => {
+    const { parentId, ...rest } = group;
+    seen.add(group.id);
+    const children = childrenOf(groups, group.id).filter(c => !seen.has(c.id)).map(c => build(c, seen));
+    return children.length ? { ...rest, children } : rest;
+  };
+  const seen = new Set<string>();
+  return groups.filter(g => isRootGroup(groups, g)).map(g => build(g, seen));
+};
+
+export const flattenGroupTree = (nodes: GroupNode[], parentId?: string): Group[] =>
+  nodes.flatMap(({ children, ...rest }) => {
+    // Structure wins over any stray parentId left in hand-edited files.
+    const group: Group = { ...rest };
+    delete group.parentId;
+    return [parentId ? { ...group, parentId } : group, ...flattenGroupTree(children ?? [], group.id)];
+  });
@@ -0,0 +1,234 @@
+import { useReducer, useEffect, useCallback } from 'react';
+import { Group } from './types';
+import { DEFAULT_BOARD_ID } from './storage';
+import { imageRefsIn } from './images';
+import { mergeConcurrent } from './merge';
+
+// --- CONSTANTS ---
+const HISTORY_STORAGE_KEY = 'visualFavoritesHistory';
+export const HISTORY_LIMIT = 50;
+
+// --- DATA TYPES ---
+// A command only records the groups it touched, so undo/redo replays the
+// change without keeping a full copy of the canvas per entry.
+export interface GroupChange {
+  id: string;
+  before: Group | null;
+  after: Group | null;
+}
+
+export interface HistoryCommand {
+  label: string;
+  changes: GroupChange[];
+  orderBefore: string[];
+  orderAfter: string[];
+}
+
+interface HistoryState {
+  present: Group[];
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+type GroupsUpdater = (prev: Group[]) => Group[];
+
+type HistoryAction =
+  | { type: 'commit'; label: string; update: GroupsUpdater }
+  | { type: 'preview'; update: GroupsUpdater }
+  | { type: 'checkpoint'; label: string; base: Group[] }
+  | { type: 'undo' }
+  | { type: 'redo' };
+
+// --- COMMANDS ---
+const isSameGroup = (a: Group, b: Group) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+export const createCommand = (label: string, prev: Group[], next: Group[]): HistoryCommand | null => {
+  const prevById = new Map(prev.map(g => [g.id, g]));
+  const nextById = new Map(next.map(g => [g.id, g]));
+  const changes: GroupChange[] = [];
+
+  prev.forEach(group => {
+    const after = nextById.get(group.id) ?? null;
+    if (!after || !isSameGroup(group, after)) {
+      changes.push({ id: group.id, before: group, after });
+    }
+  });
+  next.forEach(group => {
+    if (!prevById.has(group.id)) {
+      changes.push({ id: group.id, before: null, after: group });
+    }
+  });
+
+  const orderBefore = prev.map(g => g.id);
+  const orderAfter = next.map(g => g.id);
+  const orderChanged = orderBefore.join('\n') !== orderAfter.join('\n');
+  if (changes.length === 0 && !orderChanged) return null;
+
+  return { label, changes, orderBefore, orderAfter };
+};
+
+// The canvas with the command's groups and order as they were on one side of it.
+const withSide = (groups: Group[], command: HistoryCommand, side: 'before' | 'after'): Group[] => {
+  const byId = new Map(groups.map(g => [g.id, g]));
+  command.changes.forEach(change => {
+    const target = change[side];
+    if (target) {
+      byId.set(change.id, target);
+    } else {
+      byId.delete(change.id);
+    }
+  });
+
+  const order = side === 'before' ? command.orderBefore : command.orderAfter;
+  const ordered = order.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  // Groups the command doesn't know about (e.g. created after a reload) keep their place at the end.
+  byId.forEach((group, id) => {
+    if (!order.includes(id)) ordered.push(group);
+  });
+  return ordered;
+};
+
+// Undo and redo take back only what the command itself changed, field by field. Whatever changed
+// since, in another tab or by a teammate on a team board, is merged in like a concurrent edit and
+// stays, even where it touched the same field.
+export const applyCommand = (groups: Group[], command: HistoryCommand, direction: 'undo' | 'redo'): Group[] => {
+  const [from, to] = direction === 'undo' ? ['after', 'before'] as const : ['before', 'after'] as const;
+  const base = withSide(groups, command, from);
+  const merged = mergeConcurrent(base, groups, withSide(groups, command, to)).groups;
+  // A group or favorite deleted since, e.g. by a teammate, stays deleted even if the command
+  // changed it; otherwise undoing a rename would bring it back for everyone.
+  const idsIn = (list: Group[]) => list.flatMap(g => [g.id, ...g.favorites.map(f => f.id)]);
+  const present = new Set<string>(idsIn(groups));
+  const removed = new Set<string>(idsIn(base).filter(id => !present.has(id)));
+  if (removed.size === 0) return merged;
+  return merged
+    .filter(g => !removed.has(g.id))
+    .map(g => (g.favorites.some(f => removed.has(f.id)) ? { ...g, favorites: g.favorites.filter(f => !removed.has(f.id)) } : g));
+};
+
+const pushCommand = (past: HistoryCommand[], command: HistoryCommand) =>
+  [...past, command].slice(-HISTORY_LIMIT);
+
+const historyReducer = (state: HistoryState, action: HistoryAction): HistoryState => {
+  switch (action.type) {
+    case 'commit': {
+      const next = action.update(state.present);
+      const command = createCommand(action.label, state.present, next);
+      if (!command) return state;
+      return { present: next, past: pushCommand(state.past, command), future: [] };
+    }
+    case 'preview':
+      return { ...state, present: action.update(state.present) };
+    case 'checkpoint': {
+      const command = createCommand(action.label, action.base, state.present);
+      if (!command) return state;
+      return { ...state, past: pushCommand(state.past, command), future: [] };
+    }
+    case 'undo': {
+      const command = state.past[state.past.length - 1];
+      if (!command) return state;
+      return {
+        present: applyCommand(state.present, command, 'undo'),
+        past: state.past.slice(0, -1),
+        future: [command, ...state.future],
+      };
+    }
+    case 'redo': {
+      const [command, ...future] = state.future;
+      if (!command) return state;
+      return {
+        present: applyCommand(state.present, command, 'redo'),
+        past: pushCommand(state.past, command),
+        future,
+      };
+    }
+    default:
+      return state;
+  }
+};
+
+// --- PERSISTENCE ---
+// Each board keeps its own history. Before boards existed it lived under the bare key.
+const historyKey = (boardId: string) => `${HISTORY_STORAGE_KEY}:${boardId}`;
+
+const readSavedHistory = (boardId: string) => {
+  const saved = localStorage.getItem(historyKey(boardId));
+  if (saved !== null || boardId !== DEFAULT_BOARD_ID) return saved;
+  const legacy = localStorage.getItem(HISTORY_STORAGE_KEY);
+  localStorage.removeItem(HISTORY_STORAGE_KEY);
+  return legacy;
+};
+
+const loadHistory = (boardId: string): Pick<HistoryState, 'past' | 'future'> => {
+  try {
+    const saved = JSON.parse(readSavedHistory(boardId) || 'null');
+    if (saved && Array.isArray(saved.past) && Array.isArray(saved.future)) {
+      return { past: saved.past.slice(-HISTORY_LIMIT), future: saved.future.slice(0, HISTORY_LIMIT) };
+    }
+  } catch (error) {
+    console.warn('Discarding unreadable undo history.', error);
+  }
+  return { past: [], future: [] };
+};
+
+const saveHistory = (boardId: string, past: HistoryCommand[], future: HistoryCommand[]) => {
+  // Entries can carry data-URL thumbnails, so drop the oldest half until it fits the quota.
+  let kept = past;
+  while (true) {
+    try {
+      localStorage.setItem(historyKey(boardId), JSON.stringify({ past: kept, future }));
+      return;
+    } catch (error) {
+      if (kept.length === 0) {
+        localStorage.removeItem(historyKey(boardId));
+        return;
+      }
+      kept = kept.slice(Math.ceil(kept.length / 2));
+    }
+  }
+};
+
+const isHistoryKey = (key: string) => key === HISTORY_STORAGE_KEY || key.startsWith(`${HISTORY_STORAGE_KEY}:`);
+
+// Without a board id, clears the history of every board.
+export const clearHistory = (boardId?: string) => {
+  if (boardId) {
+    localStorage.removeItem(historyKey(boardId));
+    return;
+  }
+  Object.keys(localStorage).filter(isHistoryKey).forEach(key => localStorage.removeItem(key));
+};
+
+// Images that some board's undo history can still bring back.
+export const historyImageRefs = () =>
+  Object.keys(localStorage).filter(isHistoryKey).flatMap(key => imageRefsIn(localStorage.getItem(key) ?? ''));
+
+// --- HOOK ---
+// Reads the board's history once; remount (e.g. with `key={boardId}`) to switch boards.
+export const useGroupHistory = (boardId: string, getInitialGroups: () => Group[]) => {
+  const [state, dispatch] = useReducer(historyReducer, undefined, (): HistoryState => ({
+    present: getInitialGroups(),
+    ...loadHistory(boardId),
+  }));
+
+  useEffect(() => {
+    saveHistory(boardId, state.past, state.future);
+  }, [boardId, state.past, state.future]);
+
+  const commit = useCallback((label: string, update: GroupsUpdater) => dispatch({ type: 'commit', label, update }), []);
+  const preview = useCallback((update: GroupsUpdater) => dispatch({ type: 'preview', update }), []);
+  const checkpoint = useCallback((label: string, base: Group[]) => dispatch({ type: 'checkpoint', label, base }), []);
+  const undo = useCallback(() => dispatch({ type: 'undo' }), []);
+  const redo = useCallback(() => dispatch({ type: 'redo' }), []);
+
+  return {
+    groups: state.present as Group[],
+    commit,
+    preview,
+    checkpoint,
+    undo,
+    redo,
+    undoLabel: state.past[state.past.length - 1]?.label as string | undefined,
+    redoLabel: state.future[0]?.label as string | undefined,
+  };
+};
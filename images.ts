@@ -0,0 +1,107 @@
+import { Board, Favorite, Group } from './types';
+
+// --- CONSTANTS ---
+// Thumbnails render at up to ~80px, so this leaves room for 2x screens.
+const THUMBNAIL_MAX_SIZE = 160;
+const THUMBNAIL_QUALITY = 0.82;
+// Favorites point into the workspace's image store with `image:<hash>` instead of carrying the data.
+const IMAGE_REF_PREFIX = 'image:';
+
+// --- DATA TYPES ---
+// Hash → data URL. Identical images share one entry however many favorites use them.
+export type ImageStore = Record<string, string>;
+
+// --- REFERENCES ---
+export const isImageRef = (url: string | undefined): url is string => !!url?.startsWith(IMAGE_REF_PREFIX);
+
+export const isDataImage = (url: string | undefined): url is string => !!url?.startsWith('data:image/');
+
+export const imageRef = (hash: string) => `${IMAGE_REF_PREFIX}${hash}`;
+
+// What an <img> should load: stored images by reference, anything else as is. Undefined when the
+// referenced image is gone, so callers can fall back to text.
+export const resolveImageUrl = (url: string | undefined, images: ImageStore) =>
+  isImageRef(url) ? images[url.slice(IMAGE_REF_PREFIX.length)] : url;
+
+// cyrb53: fast and synchronous, so stored data can be migrated without awaiting anything.
+export const hashImage = (dataUrl: string) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < dataUrl.length; i++) {
+    const ch = dataUrl.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+// --- STORE ---
+// The reference to store in a favorite, and the store entry it needs.
+export const internImage = (dataUrl: string) => {
+  const hash = hashImage(dataUrl);
+  return { ref: imageRef(hash), images: { [hash]: dataUrl } as ImageStore };
+};
+
+// Moves inline data URLs into `images` and points the favorites at them. Returns the same
+// objects when nothing was inline.
+export const internImages = <T extends Pick<Group, 'favorites'>>(groups: T[], images: ImageStore) => {
+  let store = images;
+  const intern = (fav: Favorite): Favorite => {
+    if (!isDataImage(fav.imageUrl)) return fav;
+    const hash = hashImage(fav.imageUrl);
+    if (store[hash] === undefined) store = { ...store, [hash]: fav.imageUrl };
+    return { ...fav, imageUrl: imageRef(hash) };
+  };
+  const interned = groups.map(group => (group.favorites.some(f => isDataImage(f.imageUrl)) ? { ...group, favorites: group.favorites.map(intern) } : group));
+  return { groups: interned, images: store };
+};
+
+const collectRefs = (groups: Group[], refs: Set<string>) => {
+  groups.forEach(group => group.favorites.forEach(fav => {
+    if (isImageRef(fav.imageUrl)) refs.add(fav.imageUrl.slice(IMAGE_REF_PREFIX.length));
+  }));
+  return refs;
+};
+
+// Only the images these boards use, e.g. for exporting a single board.
+export const referencedImages = (boards: Board[], images: ImageStore, extraHashes: Iterable<string> = []): ImageStore => {
+  const refs = new Set(extraHashes);
+  boards.forEach(board => collectRefs(board.groups, refs));
+  return Object.fromEntries(Object.entries(images).filter(([hash]) => refs.has(hash)));
+};
+
+// Finds every image reference inside serialized text (e.g. stored undo history).
+export const imageRefsIn = (text: string) =>
+  Array.from(text.matchAll(new RegExp(`"${IMAGE_REF_PREFIX}([0-9a-z]+)"`, 'g')), match => match[1]);
+
+// --- PROCESSING ---
+const loadBitmap = (file: Blob) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    URL.revokeObjectURL(url);
+    resolve(img);
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error('The file could not be read as an image.'));
+  };
+  img.src = url;
+});
+
+// Downscales to thumbnail size (or `maxSize`) and re-encodes. WebP keeps transparency at a fraction of PNG's
+// size; browsers that can't encode it return PNG, which is still small at this resolution.
+export const processImage = async (file: Blob, maxSize = THUMBNAIL_MAX_SIZE): Promise<string> => {
+  const img = await loadBitmap(file);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Images cannot be processed in this browser.');
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/webp', THUMBNAIL_QUALITY);
+};
@@ -1,216 +1,874 @@
-import React, { useState, useEffect, useRef, useMemo } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { createRoot } from 'react-dom/client';
+import { Board, CanvasData, Favorite, Group, OrbitLayoutId, ViewState, Travel, TravelingItem, Workspace } from './types';
+import { useGroupHistory, clearHistory, historyImageRefs } from './history';
+import {
+  DEFAULT_BOARD_ID, DEFAULT_BOARD_NAME, DEFAULT_VIEW, LoadResult, createEnvelope, formatIssues, loadWorkspace, onWorkspaceSavedElsewhere,
+  parseStoredData, saveWorkspace, storageUsage,
+} from './storage';
+import { ImageStore, internImage, internImages, isDataImage, processImage, referencedImages } from './images';
+import {
+  activeBoard, addBoard, appendBoards, boardFileName, cloneBoard, joinTeamBoard, mergeWorkspaces, removeBoard, sameSharedContent,
+  updateBoard,
+} from './boards';
+import { createId, downloadBlob, downloadText } from './utils';
+import {
+  CULL_MARGIN, DETAIL_ZOOM, FOCUS_ZOOM, Size, boundsOf, centerOn, easeInOut, fitBounds, isInside, overlaps, panBy, renderBounds,
+  useFrameTask, useViewAnimation, viewCenter, visibleBounds, zoomAround,
+} from './viewport';
+import {
+  DEFAULT_ORBIT_LAYOUT, ORBIT_LAYOUTS, angleAround, arrangeSystems, computePlanetPositions, findDropGroup, findFreePositions,
+  findInsertionIndex, findNestTarget, insertFavorite, insertionPosition, placeSolarSystems, radiansToPin, rootSystems, separateGroups,
+  systemContains, visibleOrbitExtent,
+} from './layout';
+import { GRID_SIZE, Guide, loadGridEnabled, saveGridEnabled, snapPosition, snapToGrid } from './snapping';
+import {
+  ARCHIVE_GROUP_NAME, UsageStats, UsageView, describeLastOpened, loadUsageView, recordOpen, saveUsageView, topFavorites, usageForGroups,
+  usageLevels, usageSunPosition,
+} from './usage';
+import { ancestorIds, canNest, descendantIds, detachGroup, groupPath, nestGroup, removeGroup } from './hierarchy';
+import {
+  CanvasNode, NavigationMove, describeFavorite, describeGroup, favoriteKey, findNode, groupKey, navigableSuns, nextFocus,
+} from './navigation';
+import { isEmptyQuery, loadSavedSearches, parseQuery, saveSavedSearches, searchFavorites } from './search';
+import {
+  EMPTY_SELECTION, Selection, SelectedFavorite, addTags, coveredFavoriteIds, describeSelection, mergeSelections, moveFavorites,
+  outermostGroupIds, pruneSelection, removeSelection, selectInBounds, selectedFavorites, selectionGroups, selectionSize, toggleFavorite,
+  toggleGroup,
+} from './selection';
+import { ContextMenu, ContextMenuItem, ContextMenuState } from './components/ContextMenu';
+import { DeleteGroupModal } from './components/DeleteGroupModal';
+import { RecoveryScreen } from './components/RecoveryScreen';
+import { BookmarkImportModal } from './components/BookmarkImportModal';
+import { MergeImportModal } from './components/MergeImportModal';
+import { Minimap } from './components/Minimap';
+import { GroupEditorModal } from './components/GroupEditorModal';
+import { TagLegend } from './components/TagLegend';
+import { SelectionBar } from './components/SelectionBar';
+import { StaleFavoritesModal } from './components/StaleFavoritesModal';
+import { SyncConflictNotice } from './components/SyncConflictNotice';
+import { UnusableLinksNotice } from './components/UnusableLinksNotice';
+import { EmbedPanel } from './components/EmbedPanel';
+import { TeamStatus } from './components/TeamStatus';
+import { Thumbnail } from './components/Thumbnail';
+import { StorageAlert, StorageIndicator, StorageStatus } from './components/StorageIndicator';
+import { collectTags, formatTags, hasTag, parseTags } from './tags';
+import { getLinkHandler, hasUsableLink, linkHandlers, openLinkTarget, typeDescription } from './linkHandlers';
+import { ConcurrentEdit, ConflictResolution, applyMerge, mergeConcurrent, rebaseFavoriteEdit } from './merge';
+import { EmbedPanelState, isFramingRefused, loadEmbedPanel, openTab, saveEmbedPanel, syncTabs } from './embeds';
+import { DEFAULT_SYNC_SERVER, applyOp, clearTeamQueue, loadTeamName, saveTeamName, useTeamSync } from './teamSync';
+import { BookmarkFolder, BookmarkImportPlan, exportBookmarksHtml, isBookmarksHtml, parseBookmarksHtml } from './bookmarks';
+import { ExportArea, boardRegion, renderCanvasPng, renderCanvasSvg, renderPrintableList, selectionRegion } from './canvasExport';
 
 // --- CONSTANTS ---
-const ORBIT_RADIUS = 180;
-const MIN_ZOOM = 0.2;
-const MAX_ZOOM = 3.0;
-
-// --- DATA TYPES ---
-interface Favorite {
-  id: string;
-  type: 'web' | 'teams' | 'excel' | 'powerpoint' | 'teamsGroup';
-  name: string;
-  url: string;
-  imageUrl?: string;
-  displayText?: string;
-  openBehavior?: 'modal' | 'newTab';
+const ZOOM_STEP = 1.1;
+const PAN_STEP = 60;
+// Keeps keyboard focus this far inside the viewport edges.
+const REVEAL_MARGIN = 100;
+// A press turns into a drag once the pointer travels this far (in screen pixels).
+const DRAG_THRESHOLD = 6;
+const LONG_PRESS_MS = 500;
+// How many ranked results the search dropdown lists.
+const SEARCH_LIST_LIMIT = 8;
+const PREVIEW_DEBOUNCE_MS = 500;
+const ARRANGE_DURATION_MS = 700;
+
+type GestureMode = 'idle' | 'pan' | 'group' | 'favorite' | 'pinch' | 'marquee';
+
+// What AddFavoriteModal shows as the thumbnail; 'auto' is the generated monogram.
+type ThumbnailSource = 'auto' | 'favicon' | 'image' | 'text';
+
+interface FavoriteDrag {
+  fromGroupId: string;
+  item: Favorite;
+  point: { x: number; y: number };
+  // Every favorite that moves with it, the pressed one included.
+  moving: SelectedFavorite[];
 }
 
-interface Group {
-  id: string;
-  name: string;
-  favorites: Favorite[];
-  x: number;
-  y: number;
+// The rubber band being drawn, in canvas (not world) coordinates.
+interface Marquee {
+  from: { x: number; y: number };
+  to: { x: number; y: number };
 }
 
-interface ViewState {
-  zoom: number;
-  pan: { x: number; y: number };
+// The open board's groups as another tab saved them, and as both tabs last had them.
+interface RemoteChange {
+  boardId: string;
+  base: Group[];
+  theirs: Group[];
 }
 
-interface TravelingItem {
+interface DropTarget {
+  groupId: string;
+  index: number;
   item: Favorite;
-  startPos: { x: number; y: number };
-  endPos: { x: number; y: number };
-  fromGroupId: string;
-  toGroupId: string;
+  position: { x: number; y: number };
 }
 
+const worldTransform = (view: ViewState) => `translate(${view.pan.x}px, ${view.pan.y}px) scale(${view.zoom})`;
+
+// The grid is drawn by the root's background so it covers the whole screen at any pan and zoom.
+const isSameGuides = (a: Guide[], b: Guide[]) =>
+  a.length === b.length && a.every((g, i) => g.axis === b[i].axis && g.value === b[i].value && g.from === b[i].from && g.to === b[i].to);
+
+const gridStyle = (view: ViewState) => ({
+  backgroundSize: `${GRID_SIZE * view.zoom}px ${GRID_SIZE * view.zoom}px`,
+  backgroundPosition: `${view.pan.x - (GRID_SIZE * view.zoom) / 2}px ${view.pan.y - (GRID_SIZE * view.zoom) / 2}px`,
+});
+
 // --- MOCK DATA for initial state ---
-const getInitialData = (): Group[] => {
-  const savedData = localStorage.getItem('visualFavorites');
-  if (savedData) {
-    return JSON.parse(savedData);
-  }
-  return [
+const getSampleData = (): CanvasData => ({
+  view: DEFAULT_VIEW,
+  groups: [
     {
       id: 'group-1', name: "Work Tools", x: 400, y: 300,
       favorites: [
         { id: 'fav-1', type: 'web', name: 'Company Portal', url: 'https://www.google.com/search?q=santander', displayText: 'Portal', openBehavior: 'modal' },
-        { id: 'fav-2', type: 'web', name: 'Project Tracker', url: '#', imageUrl: 'https://placehold.co/100x100/333333/FFFFFF/png?text=Tracker', openBehavior: 'newTab' },
-        { id: 'fav-5', type: 'excel', name: 'Q3 Report', url: '#', imageUrl: 'https://placehold.co/100x100/107C41/FFFFFF/png?text=XLS' },
-        { id: 'fav-6', type: 'powerpoint', name: 'Deck', url: '#', displayText: 'PPT' },
+        { id: 'fav-2', type: 'web', name: 'Project Tracker', url: 'https://example.com/tracker', imageUrl: 'https://placehold.co/100x100/333333/FFFFFF/png?text=Tracker', openBehavior: 'newTab' },
+        { id: 'fav-5', type: 'excel', name: 'Q3 Report', url: 'https://contoso.sharepoint.com/sites/finance/Q3%20Report.xlsx', imageUrl: 'https://placehold.co/100x100/107C41/FFFFFF/png?text=XLS' },
+        { id: 'fav-6', type: 'powerpoint', name: 'Deck', url: 'https://contoso.sharepoint.com/sites/finance/Deck.pptx', displayText: 'PPT' },
       ],
     },
     {
       id: 'group-2', name: "Team Contacts", x: 800, y: 500,
       favorites: [
-        { id: 'fav-3', type: 'teams', name: 'Alice Johnson', url: '#', imageUrl: 'https://i.pravatar.cc/150?u=alice' },
-        { id: 'fav-4', type: 'teams', name: 'Bob Williams', url: '#', imageUrl: 'https://i.pravatar.cc/150?u=bob' },
-        { id: 'fav-7', type: 'teamsGroup', name: 'Project Alpha', url: '#', displayText: 'PA' },
+        { id: 'fav-3', type: 'teams', name: 'Alice Johnson', url: 'https://teams.microsoft.com/l/chat/0/0?users=alice%40contoso.com', imageUrl: 'https://i.pravatar.cc/150?u=alice' },
+        { id: 'fav-4', type: 'teams', name: 'Bob Williams', url: 'https://teams.microsoft.com/l/chat/0/0?users=bob%40contoso.com', imageUrl: 'https://i.pravatar.cc/150?u=bob' },
+        { id: 'fav-7', type: 'teamsGroup', name: 'Project Alpha', url: 'https://teams.microsoft.com/l/team/project-alpha', displayText: 'PA' },
       ],
     },
-  ];
-};
+  ],
+});
+
+const getSampleWorkspace = (): Workspace => ({
+  boards: [{ id: DEFAULT_BOARD_ID, name: DEFAULT_BOARD_NAME, ...getSampleData() }],
+  activeBoardId: DEFAULT_BOARD_ID,
+  images: {},
+});
 
 // --- APP COMPONENT ---
-const App: React.FC = () => {
-  const [groups, setGroups] = useState<Group[]>(getInitialData);
+// Shows one board. `board` is only read on mount; the parent remounts App when the active board changes.
+const App: React.FC<{
+  board: Board;
+  workspace: Workspace;
+  storageStatus: StorageStatus;
+  remoteChange: RemoteChange | null;
+  onWorkspaceChange: (update: (workspace: Workspace) => Workspace) => void;
+  // Opens a favorite in a tab of the docked workspace panel.
+  onOpenEmbed: (favorite: Favorite) => void;
+}> = ({ board, workspace, storageStatus, remoteChange, onWorkspaceChange, onOpenEmbed }) => {
+  const { groups, commit, preview, checkpoint, undo, redo, undoLabel, redoLabel } = useGroupHistory(board.id, () => board.groups);
+  // Changes that add, move or resize a solar system run through the collision pass, so a grown
+  // orbit never ends up inside a neighbour. Renames, tags and other edits leave every sun in place.
+  const commitLayout = useCallback(
+    (label: string, update: (prev: Group[]) => Group[]) => commit(label, prev => separateGroups(update(prev))),
+    [commit]
+  );
+  // Where every sun is drawn; sub-suns take their position from their parent.
+  const placedGroups = useMemo(() => placeSolarSystems(groups), [groups]);
+  // Kept on the board rather than dropped when loaded, but flagged and never opened.
+  const unusableFavorites = useMemo(() => groups.flatMap(g => g.favorites).filter(fav => !hasUsableLink(fav)), [groups]);
+  const unusableFavIds = useMemo(() => new Set<string>(unusableFavorites.map(fav => fav.id)), [unusableFavorites]);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  const [iframeUrl, setIframeUrl] = useState<string | null>(null);
   const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
   const [editingFavorite, setEditingFavorite] = useState<Favorite | null>(null);
-  const [view, setView] = useState<ViewState>({ zoom: 1, pan: { x: 0, y: 0 } });
-  const [travelingItem, setTravelingItem] = useState<TravelingItem | null>(null);
+  const [view, setViewState] = useState<ViewState>(board.view);
+  const [travel, setTravel] = useState<Travel | null>(null);
   const [clickedFavoriteId, setClickedFavoriteId] = useState<string | null>(null);
-  const [newlyAddedFavId, setNewlyAddedFavId] = useState<string | null>(null);
+  const [newlyAddedFavIds, setNewlyAddedFavIds] = useState<string[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
+  // Index into searchList of the result the search box last jumped to.
+  const [searchCursor, setSearchCursor] = useState(-1);
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [savedSearches, setSavedSearches] = useState<string[]>(loadSavedSearches);
+  const [viewportSize, setViewportSize] = useState<Size>({ width: window.innerWidth, height: window.innerHeight });
+  const [contextMenu, setContextMenu] = useState<ContextMenuState | null>(null);
+  const [deletingGroupId, setDeletingGroupId] = useState<string | null>(null);
+  const [editingGroupId, setEditingGroupId] = useState<string | null>(null);
+  const [highlightedTag, setHighlightedTag] = useState<string | null>(null);
+  const [bookmarkFolders, setBookmarkFolders] = useState<BookmarkFolder[] | null>(null);
+  const [importedBoard, setImportedBoard] = useState<Board | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [favoriteDrag, setFavoriteDrag] = useState<FavoriteDrag | null>(null);
+  const [focusedKey, setFocusedKey] = useState<string | null>(null);
+  const [carrying, setCarrying] = useState<{ fromGroupId: string; item: Favorite } | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const [rawSelection, setSelection] = useState<Selection>(EMPTY_SELECTION);
+  const [marquee, setMarquee] = useState<Marquee | null>(null);
+  const [isGridEnabled, setIsGridEnabled] = useState(loadGridEnabled);
+  const [guides, setGuides] = useState<Guide[]>([]);
+  const [usageView, setUsageView] = useState<UsageView>(loadUsageView);
+  const [isStaleReportOpen, setIsStaleReportOpen] = useState(false);
+  const [syncConflicts, setSyncConflicts] = useState<ConcurrentEdit[]>([]);
+  const [dismissedUnusableIds, setDismissedUnusableIds] = useState<string[]>([]);
 
   const rootRef = useRef<HTMLDivElement>(null);
+  const worldRef = useRef<HTMLDivElement>(null);
+
+  // --- VIEW ---
+  // The view as drawn. A pan moves the world element directly and only hands the view to React
+  // (re-rendering the canvas) once it has moved far enough that culled items come into sight.
+  const liveView = useRef(view);
+  const viewFrame = useFrameTask();
+  // Drag feedback (moved suns, the drag ghost, the marquee) is also drawn at most once per frame.
+  const gestureFrame = useFrameTask();
+
+  const setView = useCallback((update: ViewState | ((prev: ViewState) => ViewState)) => {
+    viewFrame.cancel();
+    liveView.current = typeof update === 'function' ? update(liveView.current) : update;
+    setViewState(liveView.current);
+  }, [viewFrame.cancel]);
+
+  // For pointer and wheel moves, which can fire several times per frame.
+  const moveView = (update: (prev: ViewState) => ViewState) => {
+    liveView.current = update(liveView.current);
+    viewFrame.schedule(drawView);
+  };
+
+  const drawView = () => {
+    const live = liveView.current;
+    const rendered = latestCanvas.current.view;
+    const drift = Math.max(Math.abs(live.pan.x - rendered.pan.x), Math.abs(live.pan.y - rendered.pan.y));
+    if (live.zoom !== rendered.zoom || drift > CULL_MARGIN / 2) {
+      setViewState(live);
+      return;
+    }
+    worldRef.current!.style.transform = worldTransform(live);
+    if (isGridEnabled) Object.assign(rootRef.current!.style, gridStyle(live));
+  };
+
+  // Hands a pan that only moved the DOM over to React, e.g. once the pointer is let go.
+  const settleView = () => {
+    viewFrame.flush();
+    if (liveView.current !== latestCanvas.current.view) setViewState(liveView.current);
+  };
+
+  const { flyTo, stop: stopFlight } = useViewAnimation(setView);
+
   const importFileRef = useRef<HTMLInputElement>(null);
   const interactionState = useRef({
-    isPanning: false,
-    isDraggingGroup: false,
-    draggedGroupIndex: -1,
+    mode: 'idle' as GestureMode,
+    // Every pointer currently down on the canvas, in client coordinates.
+    pointers: new Map<number, { x: number; y: number }>(),
+    pointerType: 'mouse',
     startPos: { x: 0, y: 0 },
-    initialGroupPos: { x: 0, y: 0 },
+    // Where the gesture began; `startPos` follows the pointer while panning.
+    downPos: { x: 0, y: 0 },
+    hasMoved: false,
+    draggedGroupId: '',
+    // The pressed sun, or every outermost selected sun when it is part of the selection.
+    draggedGroups: [] as { id: string; start: { x: number; y: number } }[],
+    // The dragged suns and their sub-systems, whose elements follow the pointer.
+    movingIds: [] as string[],
+    // Centers of the suns that stay put, which a dragged sun can line up with.
+    alignTargets: [] as { x: number; y: number }[],
+    groupsBeforeDrag: [] as Group[],
+    // How far the dragged suns have moved from where they started, snapping included.
+    dragOffset: { x: 0, y: 0 },
+    pressedFavorite: null as Omit<FavoriteDrag, 'point'> | null,
+    pinch: { distance: 0, midpoint: { x: 0, y: 0 } },
+    longPressTimer: 0,
+    suppressClick: false,
   });
+  // Set when a keyboard action moves focus; cleared once the target element has it.
+  const focusRequested = useRef(false);
 
-  const dragItem = useRef<{ fromGroupId: string; item: Favorite } | null>(null);
-  const dragOverGroup = useRef<string | null>(null);
+  const latestCanvas = useRef<CanvasData>({ groups, view });
+  latestCanvas.current = { groups, view };
+
+  // Writes this board's latest groups and view into the workspace, then applies `update` on top.
+  const updateWorkspace = useCallback((update: (workspace: Workspace) => Workspace = ws => ws) => {
+    onWorkspaceChange(ws => update(updateBoard(ws, board.id, latestCanvas.current)));
+  }, [onWorkspaceChange, board.id]);
 
   useEffect(() => {
-    localStorage.setItem('visualFavorites', JSON.stringify(groups));
+    updateWorkspace();
   }, [groups]);
 
+  // --- SYNC ---
+  const reportConflicts = (conflicts: ConcurrentEdit[]) => {
+    setSyncConflicts(prev => [...prev.filter(c => !conflicts.some(n => n.mine.id === c.mine.id)), ...conflicts]);
+  };
+
+  // Another tab saved this board: fold its changes into ours without touching undo history, whose
+  // entries only take back our own fields (see applyCommand). A running auto-arrange is finished
+  // first, and a sun being dragged keeps going from a rebased start.
+  const seenRemoteChange = useRef(remoteChange);
   useEffect(() => {
-    if (newlyAddedFavId) {
-        const timer = setTimeout(() => setNewlyAddedFavId(null), 700); // Animation duration
+    if (!remoteChange || remoteChange === seenRemoteChange.current || remoteChange.boardId !== board.id) return;
+    seenRemoteChange.current = remoteChange;
+    const { base, theirs } = remoteChange;
+    finishArrange();
+    const state = interactionState.current;
+    if (state.mode === 'group') state.groupsBeforeDrag = mergeConcurrent(base, state.groupsBeforeDrag, theirs).groups;
+    const { conflicts } = mergeConcurrent(base, latestCanvas.current.groups, theirs);
+    preview(prev => mergeConcurrent(base, prev, theirs).groups);
+    if (conflicts.length) reportConflicts(conflicts);
+  }, [remoteChange]);
+
+  const handleUseTheirs = ({ mine, theirs }: ConcurrentEdit) => {
+    updateFavorite("Use other tab's version", mine.id, () => theirs);
+    setSyncConflicts(prev => prev.filter(c => c.mine.id !== mine.id));
+  };
+
+  const addImages = (images: ImageStore) => {
+    if (Object.keys(images).length > 0) onWorkspaceChange(ws => ({ ...ws, images: { ...ws.images, ...images } }));
+  };
+
+  // Moves any inline data URLs into the shared image store before the groups are committed.
+  const withInternedImages = (incoming: Group[]) => {
+    const interned = internImages(incoming, {});
+    addImages(interned.images);
+    return interned.groups;
+  };
+
+  // --- TEAM SYNC ---
+  // A team board also streams its changes through a sync server. Others' operations are applied
+  // the same way another tab's save is: on top of what is here, outside undo history. Undo only
+  // takes back our own fields, so what it streams out never reverts a teammate's work.
+  const team = workspace.boards.find(b => b.id === board.id)?.team;
+  const latestImages = useRef(workspace.images);
+  latestImages.current = workspace.images;
+  const teamSync = useTeamSync(board.id, team, groups, {
+    getImages: () => latestImages.current,
+    onRemoteOps: (ops) => {
+      finishArrange();
+      const state = interactionState.current;
+      if (state.mode === 'group') state.groupsBeforeDrag = ops.reduce(applyOp, state.groupsBeforeDrag);
+      preview(prev => ops.reduce(applyOp, prev));
+    },
+    onReset: (next) => {
+      finishArrange();
+      preview(() => next);
+    },
+    onImages: addImages,
+  });
+
+  // Panning and zooming fire many times a second, so the view is saved once it settles.
+  useEffect(() => {
+    const timer = setTimeout(() => updateWorkspace(), 500);
+    return () => clearTimeout(timer);
+  }, [view]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      // Let text fields keep their native undo.
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo, undoLabel, redoLabel]);
+
+  const handleUndo = () => {
+    if (undoLabel) setAnnouncement(`Undid ${undoLabel}`);
+    undo();
+  };
+
+  const handleRedo = () => {
+    if (redoLabel) setAnnouncement(`Redid ${redoLabel}`);
+    redo();
+  };
+
+  useEffect(() => {
+    if (newlyAddedFavIds.length > 0) {
+        const timer = setTimeout(() => setNewlyAddedFavIds([]), 700); // Animation duration
         return () => clearTimeout(timer);
     }
-  }, [newlyAddedFavId]);
+  }, [newlyAddedFavIds]);
 
   // --- Search Logic ---
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+
+  // Ranked best-first; the canvas dims everything that isn't a hit.
+  const searchHits = useMemo(
+    () => (isEmptyQuery(parsedQuery) ? [] : searchFavorites(groups, parsedQuery)),
+    [parsedQuery, groups]
+  );
+  const searchList = searchHits.slice(0, SEARCH_LIST_LIMIT);
+
   const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) {
+    if (isEmptyQuery(parsedQuery)) {
       return null;
     }
-    const lowerCaseQuery = searchQuery.toLowerCase();
-    const matchingFavIds = new Set<string>();
-    const matchingGroupIds = new Set<string>();
-
-    groups.forEach(group => {
-      let groupHasMatch = false;
-      group.favorites.forEach(fav => {
-        const groupName = group.name.toLowerCase();
-        const favName = fav.name.toLowerCase();
-        const favUrl = fav.url.toLowerCase();
-        const favType = fav.type.toLowerCase();
-
-        if (groupName.includes(lowerCaseQuery) ||
-            favName.includes(lowerCaseQuery) ||
-            favUrl.includes(lowerCaseQuery) ||
-            favType.includes(lowerCaseQuery)) {
-          matchingFavIds.add(fav.id);
-          groupHasMatch = true;
-        }
-      });
-      if(groupHasMatch) {
-          matchingGroupIds.add(group.id);
-      }
-    });
+    const matchingFavIds = new Set<string>(searchHits.map(hit => hit.favorite.id));
+    const matchingGroupIds = new Set<string>(searchHits.map(hit => hit.groupId));
+    // A match deep inside a sub-system keeps every sun on the way up lit.
+    Array.from(matchingGroupIds).forEach(id => ancestorIds(groups, id).forEach(a => matchingGroupIds.add(a)));
     return { matchingFavIds, matchingGroupIds };
-  }, [searchQuery, groups]);
+  }, [parsedQuery, searchHits, groups]);
 
+  useEffect(() => {
+    saveSavedSearches(savedSearches);
+  }, [savedSearches]);
+
+  // --- Tags ---
+  const tagCounts = useMemo(() => collectTags(groups), [groups]);
+  // A tag that was just removed from its last favorite stops highlighting on its own.
+  const activeTag = highlightedTag && tagCounts.some(t => hasTag([t.tag], highlightedTag)) ? highlightedTag : null;
+
+  const tagHighlight = useMemo(() => {
+    if (!activeTag) return null;
+    const taggedFavIds = new Set<string>();
+    const taggedGroupIds = new Set<string>();
+    groups.forEach(group => group.favorites.forEach(fav => {
+      if (!hasTag(fav.tags, activeTag)) return;
+      taggedFavIds.add(fav.id);
+      taggedGroupIds.add(group.id);
+    }));
+    Array.from(taggedGroupIds).forEach(id => ancestorIds(groups, id).forEach(a => taggedGroupIds.add(a)));
+    return { taggedFavIds, taggedGroupIds };
+  }, [activeTag, groups]);
+
+  const handleToggleTag = (tag: string) => {
+    const next = activeTag && hasTag([activeTag], tag) ? null : tag;
+    setHighlightedTag(next);
+    setAnnouncement(next ? `Highlighting favorites tagged ${next}` : 'Tag highlight cleared');
+  };
+
+  // --- Selection ---
+  // Anything deleted since it was picked (e.g. by an undo) quietly drops out.
+  const selection = useMemo(() => pruneSelection(rawSelection, groups), [rawSelection, groups]);
+  const selectedGroupIds = useMemo(() => new Set<string>(selection.groupIds), [selection]);
+  const selectedFavIds = useMemo(() => new Set<string>(selection.favoriteIds), [selection]);
+
+  const changeSelection = (next: Selection) => {
+    setSelection(next);
+    setAnnouncement(selectionSize(next) > 0 ? `${describeSelection(next)} selected` : 'Selection cleared');
+  };
 
-  // --- Canvas Interaction Handlers ---
   useEffect(() => {
-    const rootEl = rootRef.current;
-    if (!rootEl) return;
-    
-    const handleMouseMove = (e: MouseEvent) => {
-      e.preventDefault();
-      const { isPanning, isDraggingGroup, startPos, draggedGroupIndex, initialGroupPos } = interactionState.current;
-      
-      if (isPanning) {
-        const dx = e.clientX - startPos.x;
-        const dy = e.clientY - startPos.y;
-        setView(prev => ({ ...prev, pan: { x: prev.pan.x + dx, y: prev.pan.y + dy } }));
-        interactionState.current.startPos = { x: e.clientX, y: e.clientY };
-      } else if (isDraggingGroup) {
-        const dx = (e.clientX - startPos.x) / view.zoom;
-        const dy = (e.clientY - startPos.y) / view.zoom;
-        setGroups(prev => prev.map((g, index) => 
-            index === draggedGroupIndex ? { ...g, x: initialGroupPos.x + dx, y: initialGroupPos.y + dy } : g
-        ));
-      }
+    const measure = () => {
+      const el = rootRef.current;
+      if (el) setViewportSize({ width: el.clientWidth, height: el.clientHeight });
     };
-    
-    const handleMouseUp = () => {
-      interactionState.current.isPanning = false;
-      interactionState.current.isDraggingGroup = false;
-      rootEl.classList.remove('panning');
-    };
-    
-    document.addEventListener('mousemove', handleMouseMove);
-    document.addEventListener('mouseup', handleMouseUp);
-    return () => {
-      document.removeEventListener('mousemove', handleMouseMove);
-      document.removeEventListener('mouseup', handleMouseUp);
-    };
-  }, [view.zoom]);
-  
-  const handleWheel = (e: React.WheelEvent) => {
-    e.preventDefault();
-    const zoomFactor = 1.1;
-    const newZoom = e.deltaY < 0 ? view.zoom * zoomFactor : view.zoom / zoomFactor;
-    const clampedZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, newZoom));
-    
+    measure();
+    // The canvas also changes size when the workspace panel opens, closes or is resized.
+    const observer = new ResizeObserver(measure);
+    if (rootRef.current) observer.observe(rootRef.current);
+    return () => observer.disconnect();
+  }, []);
+
+
+  // --- Canvas Interaction Handlers ---
+  // Mouse, pen and touch all go through Pointer Events. Suns and planets only record what was
+  // pressed; the root tracks every pointer, so a second finger can turn any gesture into a pinch.
+  const toCanvasPoint = (client: { x: number; y: number }) => {
     const rect = rootRef.current!.getBoundingClientRect();
-    const mouseX = e.clientX - rect.left;
-    const mouseY = e.clientY - rect.top;
-    
-    const worldX = (mouseX - view.pan.x) / view.zoom;
-    const worldY = (mouseY - view.pan.y) / view.zoom;
-    
-    const newPanX = mouseX - worldX * clampedZoom;
-    const newPanY = mouseY - worldY * clampedZoom;
-    
-    setView({ zoom: clampedZoom, pan: { x: newPanX, y: newPanY } });
+    return { x: client.x - rect.left, y: client.y - rect.top };
   };
-  
-  const handleMouseDown = (e: React.MouseEvent) => {
-    if (e.target === e.currentTarget) {
-        interactionState.current.isPanning = true;
-        interactionState.current.startPos = { x: e.clientX, y: e.clientY };
-        rootRef.current?.classList.add('panning');
+
+  const midpointOf = (a: { x: number; y: number }, b: { x: number; y: number }) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+  // Puts the dragged suns where the pointer has taken them. A dragged sub-system is lifted out of
+  // its parent and follows the pointer as a free sun.
+  const withDragOffset = (groups: Group[]) => {
+    const { draggedGroups, dragOffset } = interactionState.current;
+    return draggedGroups.reduce((acc, { id, start }) => detachGroup(acc, id, { x: start.x + dragOffset.x, y: start.y + dragOffset.y }), groups);
+  };
+
+  const groupElements = (ids: string[]): (HTMLElement | SVGElement)[] => {
+    if (!ids.length || !worldRef.current) return [];
+    return Array.from(worldRef.current.querySelectorAll<HTMLElement | SVGElement>(ids.map(id => `[data-group-id="${CSS.escape(id)}"]`).join(', ')));
+  };
+
+  // While suns are dragged only their elements move, straight in the DOM as a pan moves the world;
+  // the groups change once, when the suns are dropped. `null` puts the elements back.
+  const drawGroupDrag = (offset: { x: number; y: number } | null) => {
+    const { movingIds, draggedGroups } = interactionState.current;
+    const moving = groupElements(movingIds);
+    moving.forEach(el => {
+      // Planets and lines usually ease into new positions; while dragged they stay with the pointer.
+      el.style.transition = 'none';
+      el.style.translate = offset ? `${offset.x}px ${offset.y}px` : '';
+    });
+    // Easing comes back once the dropped positions have been drawn, so nothing glides back from
+    // where the drag began.
+    if (!offset) requestAnimationFrame(() => requestAnimationFrame(() => moving.forEach(el => { el.style.transition = ''; })));
+    // A dragged sub-system is lifted out of its parent, so the line to the parent goes.
+    groupElements(draggedGroups.map(g => g.id))
+      .filter(el => el.classList.contains('subsystem-line'))
+      .forEach(el => { el.style.visibility = offset ? 'hidden' : ''; });
+  };
+
+  const finishGroupDrag = () => {
+    const { groupsBeforeDrag, draggedGroupId, draggedGroups } = interactionState.current;
+    // The last move may still be waiting for its frame.
+    gestureFrame.cancel();
+    // Cleared in the same task as the groups change below, so nothing is drawn twice.
+    drawGroupDrag(null);
+    const current = withDragOffset(latestCanvas.current.groups);
+    if (draggedGroups.length > 1 || draggedGroups[0]?.id !== draggedGroupId) {
+      // Selected suns move together; nesting only happens when dragging a single sun.
+      preview(() => separateGroups(current, draggedGroups.map(g => g.id)));
+      checkpoint('Move groups', groupsBeforeDrag);
+      return;
     }
+    const dropped = current.find(g => g.id === draggedGroupId);
+    const formerParentId = groupsBeforeDrag.find(g => g.id === draggedGroupId)?.parentId;
+    const exclude = new Set([draggedGroupId, ...descendantIds(current, draggedGroupId)]);
+    const nestTarget = dropped && findNestTarget(placeSolarSystems(current), dropped, exclude);
+    let label = 'Move group';
+    let next: Group[];
+    if (nestTarget) {
+      // Dropped onto another sun: becomes one of its sub-systems.
+      next = nestGroup(current, draggedGroupId, nestTarget.id);
+      label = nestTarget.id === formerParentId ? 'Move group' : 'Nest group';
+    } else if (dropped && formerParentId && systemContains(groupsBeforeDrag, placeSolarSystems(groupsBeforeDrag), formerParentId, dropped)) {
+      // Let go inside the old parent's system: snaps back into its orbit.
+      next = nestGroup(current, draggedGroupId, formerParentId);
+    } else {
+      // The dropped sun keeps its spot and its neighbours make room.
+      next = separateGroups(current, [draggedGroupId]);
+      if (formerParentId) label = 'Detach group';
+    }
+    // The whole drag becomes a single history entry.
+    preview(() => next);
+    checkpoint(label, groupsBeforeDrag);
   };
 
-  const handleGroupMouseDown = (e: React.MouseEvent, groupIndex: number) => {
+  const dropFavorite = (drag: FavoriteDrag) => {
+    const target = resolveDropTarget(drag.item, drag.point);
+    if (!target) return;
+    if (drag.moving.length > 1) {
+      // The slot was picked among the target's planets minus the pressed one; the other moving
+      // planets leave their slots too, so the ones before it don't count either.
+      const movingIds = new Set<string>(drag.moving.map(m => m.item.id));
+      const others = groups.find(g => g.id === target.groupId)!.favorites.filter(f => f.id !== drag.item.id);
+      const index = target.index - others.slice(0, target.index).filter(f => movingIds.has(f.id)).length;
+      startTravel(drag.moving, target.groupId, index);
+    } else if (target.groupId === drag.fromGroupId) {
+      commit(drag.item.pinnedAngle !== undefined ? 'Move pin' : 'Reorder favorite', prev => prev.map(group =>
+        group.id === target.groupId ? { ...group, favorites: insertFavorite(group.favorites, target.item, target.index) } : group
+      ));
+    } else {
+      startTravel([{ fromGroupId: drag.fromGroupId, item: target.item }], target.groupId, target.index);
+    }
+  };
+
+  const resetGesture = () => {
+    const state = interactionState.current;
+    state.mode = 'idle';
+    state.hasMoved = false;
+    state.pressedFavorite = null;
+    setFavoriteDrag(null);
+    setDropTarget(null);
+    setMarquee(null);
+    setGuides([]);
+    gestureFrame.cancel();
+    settleView();
+    rootRef.current?.classList.remove('panning');
+  };
+
+  // Abandons the current gesture without committing anything.
+  const abortGesture = () => {
+    const state = interactionState.current;
+    if (state.mode === 'group' && state.hasMoved) drawGroupDrag(null);
+    resetGesture();
+  };
+
+  const cancelLongPress = () => {
+    window.clearTimeout(interactionState.current.longPressTimer);
+    interactionState.current.longPressTimer = 0;
+  };
+
+  // Touch has no right-click, so holding a finger on a sun or planet opens its edit action instead.
+  const startLongPress = (e: React.PointerEvent, action: () => void) => {
+    if (e.pointerType === 'mouse') return;
+    cancelLongPress();
+    interactionState.current.longPressTimer = window.setTimeout(() => {
+      interactionState.current.longPressTimer = 0;
+      interactionState.current.suppressClick = true;
+      abortGesture();
+      action();
+    }, LONG_PRESS_MS);
+  };
+
+  const handleGroupPointerDown = (e: React.PointerEvent, group: Group) => {
+    if (e.button !== 0) return;
+    const { clientX, clientY } = e;
+    // Pressing a selected sun drags the whole selection of suns.
+    const draggedIds = selectedGroupIds.has(group.id) ? outermostGroupIds(groups, selection.groupIds) : [group.id];
+    const moving = new Set<string>(draggedIds.flatMap(id => [id, ...descendantIds(groups, id)]));
+    Object.assign(interactionState.current, {
+      mode: 'group',
+      hasMoved: false,
+      startPos: { x: clientX, y: clientY },
+      draggedGroupId: group.id,
+      dragOffset: { x: 0, y: 0 },
+      movingIds: [...moving],
+      draggedGroups: draggedIds.map(id => {
+        const placed = placedGroups.find(g => g.id === id)!;
+        return { id, start: { x: placed.x, y: placed.y } };
+      }),
+      alignTargets: placedGroups.filter(g => !g.hidden && !moving.has(g.id)).map(g => ({ x: g.x, y: g.y })),
+      groupsBeforeDrag: groups,
+    });
+    startLongPress(e, () => openGroupMenu(clientX, clientY, group));
+  };
+
+  const handleFavoritePointerDown = (e: React.PointerEvent, group: Group, fav: Favorite) => {
+    if (e.button !== 0) return;
+    Object.assign(interactionState.current, {
+      mode: 'favorite',
+      hasMoved: false,
+      startPos: { x: e.clientX, y: e.clientY },
+      pressedFavorite: {
+        fromGroupId: group.id,
+        item: fav,
+        // Pressing a selected planet drags every selected planet with it.
+        moving: selectedFavIds.has(fav.id) && selection.favoriteIds.length > 1 ? selectedFavorites(groups, selection) : [{ fromGroupId: group.id, item: fav }],
+      },
+    });
+    startLongPress(e, () => openEditModal(fav));
+  };
+
+  // Runs after the sun/planet handlers, as the event bubbles up to the root.
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const state = interactionState.current;
+    state.suppressClick = false;
+    // The header, menus, dialogs and minimap sit inside the root but aren't part of the canvas.
+    if ((e.target as HTMLElement).closest('header, .modal-overlay, .context-menu, .minimap, .tag-legend, .storage-alert, .sync-conflict-notice, .selection-bar')) return;
+    stopFlight();
+    finishArrange();
+    state.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    state.pointerType = e.pointerType;
+    state.downPos = { x: e.clientX, y: e.clientY };
+    if (state.pointers.size === 2) {
+      cancelLongPress();
+      abortGesture();
+      const [a, b]: { x: number; y: number }[] = Array.from(state.pointers.values());
+      state.mode = 'pinch';
+      state.pinch = { distance: Math.hypot(a.x - b.x, a.y - b.y), midpoint: midpointOf(a, b) };
+    } else if (state.pointers.size === 1 && e.target === e.currentTarget && e.button === 0) {
+      // Shift-dragging on empty canvas draws a selection rectangle instead of panning.
+      state.mode = e.shiftKey ? 'marquee' : 'pan';
+      state.startPos = { x: e.clientX, y: e.clientY };
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (!e.shiftKey) rootRef.current?.classList.add('panning');
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (team) teamSync.sendCursor(screenToWorld(e.clientX, e.clientY));
+    const state = interactionState.current;
+    if (!state.pointers.has(e.pointerId)) return;
+    state.pointers.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    const dx = e.clientX - state.startPos.x;
+    const dy = e.clientY - state.startPos.y;
+    if (!state.hasMoved && Math.hypot(dx, dy) > DRAG_THRESHOLD) {
+      cancelLongPress();
+      if (state.mode === 'group' || state.mode === 'favorite') {
+        state.hasMoved = true;
+        // From here on the press is a drag, so the pointer stays with us even outside the canvas.
+        rootRef.current?.setPointerCapture(e.pointerId);
+      }
+    }
+
+    switch (state.mode) {
+      case 'pinch': {
+        const [a, b]: { x: number; y: number }[] = Array.from(state.pointers.values());
+        const midpoint = midpointOf(a, b);
+        const distance = Math.hypot(a.x - b.x, a.y - b.y);
+        const last = state.pinch;
+        const factor = last.distance > 0 ? distance / last.distance : 1;
+        const anchor = toCanvasPoint(midpoint);
+        moveView(prev => zoomAround(panBy(prev, midpoint.x - last.midpoint.x, midpoint.y - last.midpoint.y), factor, anchor));
+        state.pinch = { distance, midpoint };
+        break;
+      }
+      case 'pan':
+        moveView(prev => panBy(prev, dx, dy));
+        state.startPos = { x: e.clientX, y: e.clientY };
+        break;
+      case 'marquee': {
+        const marquee = { from: toCanvasPoint(state.downPos), to: toCanvasPoint({ x: e.clientX, y: e.clientY }) };
+        gestureFrame.schedule(() => setMarquee(marquee));
+        break;
+      }
+      case 'group': {
+        if (!state.hasMoved) break;
+        // The pressed sun lines up with its neighbours (or the grid); the rest of the selection
+        // keeps its distance to it. Holding Alt places it freely.
+        const anchor = state.draggedGroups.find(g => g.id === state.draggedGroupId) ?? state.draggedGroups[0];
+        const free = { x: anchor.start.x + dx / view.zoom, y: anchor.start.y + dy / view.zoom };
+        const snapped = e.altKey ? { point: free, guides: [] } : snapPosition(free, state.alignTargets, { grid: isGridEnabled, zoom: view.zoom });
+        state.dragOffset = { x: snapped.point.x - anchor.start.x, y: snapped.point.y - anchor.start.y };
+        gestureFrame.schedule(() => {
+          setGuides(prev => (isSameGuides(prev, snapped.guides) ? prev : snapped.guides));
+          drawGroupDrag(state.dragOffset);
+        });
+        break;
+      }
+      case 'favorite': {
+        if (!state.hasMoved || !state.pressedFavorite) break;
+        const { item } = state.pressedFavorite;
+        const drag = { ...state.pressedFavorite, point: screenToWorld(e.clientX, e.clientY) };
+        gestureFrame.schedule(() => {
+          setFavoriteDrag(drag);
+          const target = resolveDropTarget(item, drag.point);
+          setDropTarget(prev =>
+            prev?.groupId === target?.groupId && prev?.index === target?.index && prev?.item.pinnedAngle === target?.item.pinnedAngle ? prev : target
+          );
+        });
+        break;
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const state = interactionState.current;
+    if (!state.pointers.delete(e.pointerId)) return;
+    cancelLongPress();
+    if (state.mode === 'pinch') {
+      // Lifting one finger of a pinch carries on as a one-finger pan.
+      const remaining = Array.from(state.pointers.values())[0] as { x: number; y: number } | undefined;
+      state.mode = remaining ? 'pan' : 'idle';
+      if (remaining) state.startPos = remaining;
+      return;
+    }
+    if (state.pointers.size > 0) return;
+    if (e.type === 'pointercancel') {
+      abortGesture();
+      return;
+    }
+    if (state.mode === 'marquee') {
+      finishMarquee(e.clientX, e.clientY);
+    } else if (state.mode === 'pan' && selectionSize(selection) > 0
+      && Math.hypot(e.clientX - state.downPos.x, e.clientY - state.downPos.y) <= DRAG_THRESHOLD) {
+      // A plain click on empty canvas lets go of the selection.
+      changeSelection(EMPTY_SELECTION);
+    }
+    if (state.hasMoved) {
+      if (state.mode === 'group') finishGroupDrag();
+      if (state.mode === 'favorite' && state.pressedFavorite) {
+        dropFavorite({ ...state.pressedFavorite, point: screenToWorld(e.clientX, e.clientY) });
+      }
+      // The browser still fires a click where the drag ended; it must not open the favorite.
+      state.suppressClick = true;
+    }
+    resetGesture();
+  };
+
+  // Adds everything inside the rectangle to the selection.
+  const finishMarquee = (clientX: number, clientY: number) => {
+    const { downPos } = interactionState.current;
+    const a = screenToWorld(downPos.x, downPos.y);
+    const b = screenToWorld(clientX, clientY);
+    const bounds = { minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y), maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y) };
+    const picked = selectInBounds(placedGroups, planetPositions, bounds);
+    if (selectionSize(picked) > 0) changeSelection(mergeSelections(selection, picked));
+  };
+
+  const handleClickCapture = (e: React.MouseEvent) => {
+    if (!interactionState.current.suppressClick) return;
+    interactionState.current.suppressClick = false;
+    e.preventDefault();
     e.stopPropagation();
-    interactionState.current.isDraggingGroup = true;
-    interactionState.current.draggedGroupIndex = groupIndex;
-    interactionState.current.startPos = { x: e.clientX, y: e.clientY };
-    interactionState.current.initialGroupPos = { x: groups[groupIndex].x, y: groups[groupIndex].y };
   };
 
+  // A touch long-press is handled by startLongPress; the browser's own context menu would open on top of it.
+  const handleContextMenuCapture = (e: React.MouseEvent) => {
+    if (interactionState.current.pointerType === 'touch') {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+  };
+
+  const zoomAt = (factor: number, clientX: number, clientY: number) => {
+    moveView(prev => zoomAround(prev, factor, toCanvasPoint({ x: clientX, y: clientY })));
+    return liveView.current.zoom;
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    e.preventDefault();
+    stopFlight();
+    zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX, e.clientY);
+  };
+
+  // New suns go in the free spot nearest the middle of the screen, which is shown if it lies off-screen.
   const handleAddGroup = () => {
     const newGroupName = prompt("Enter new group name:");
     if (newGroupName) {
-      setGroups(prev => [...prev, { id: `group-${Date.now()}`, name: newGroupName, favorites: [], x: 200, y: 200 }]);
+      const [free] = findFreePositions(rootSystems(placedGroups), 1, viewCenter(view, viewportSize));
+      const spot = isGridEnabled ? snapToGrid(free) : free;
+      commitLayout('Add group', prev => [...prev, { id: createId('group'), name: newGroupName, favorites: [], ...spot }]);
+      const visible = visibleBounds(view, viewportSize);
+      if (spot.x < visible.minX || spot.x > visible.maxX || spot.y < visible.minY || spot.y > visible.maxY) {
+        flyTo(view, centerOn(spot, view.zoom, viewportSize), viewportSize);
+      }
+    }
+  };
+
+  // --- ARRANGING ---
+  const arrangeAnimation = useRef<{ frame: number; finish: () => void } | null>(null);
+
+  // Jumps a running auto-arrange to its end, e.g. when the user grabs the canvas.
+  const finishArrange = () => {
+    const running = arrangeAnimation.current;
+    if (!running) return;
+    cancelAnimationFrame(running.frame);
+    running.finish();
+  };
+
+  useEffect(() => () => {
+    if (arrangeAnimation.current) cancelAnimationFrame(arrangeAnimation.current.frame);
+  }, []);
+
+  const toggleGrid = () => {
+    setIsGridEnabled(prev => !prev);
+  };
+
+  useEffect(() => {
+    saveGridEnabled(isGridEnabled);
+  }, [isGridEnabled]);
+
+  // Suns glide from where they are to their arranged spots; the whole move is one history entry.
+  const handleAutoArrange = () => {
+    finishArrange();
+    const targets = arrangeSystems(groups);
+    const before = groups;
+    const arranged = groups.map(g => {
+      const target = targets.get(g.id);
+      return target ? { ...g, ...(isGridEnabled ? snapToGrid(target) : target) } : g;
+    });
+    const finish = () => {
+      arrangeAnimation.current = null;
+      preview(() => arranged);
+      checkpoint('Auto-arrange', before);
+    };
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      finish();
+      return;
+    }
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / ARRANGE_DURATION_MS);
+      if (t >= 1) {
+        finish();
+        return;
+      }
+      const k = easeInOut(t);
+      preview(() => before.map((g, i) => (g === arranged[i] ? g : { ...g, x: g.x + (arranged[i].x - g.x) * k, y: g.y + (arranged[i].y - g.y) * k })));
+      arrangeAnimation.current!.frame = requestAnimationFrame(step);
+    };
+    arrangeAnimation.current = { frame: requestAnimationFrame(step), finish };
+  };
+
+  const handleAddSubGroup = (parent: Group) => {
+    const name = prompt(`New sub-group of "${parent.name}":`)?.trim();
+    if (name) {
+      const child: Group = { id: createId('group'), name, favorites: [], x: parent.x, y: parent.y, parentId: parent.id };
+      commitLayout('Add sub-group', prev => [...prev.map(g => g.id === parent.id ? { ...g, collapsed: false } : g), child]);
     }
   };
 
@@ -226,9 +884,19 @@ const App: React.FC = () => {
   }
 
   const handleSaveFavorite = (favoriteData: Favorite | Omit<Favorite, 'id'>) => {
+    if (isDataImage(favoriteData.imageUrl)) {
+      const { ref, images } = internImage(favoriteData.imageUrl);
+      addImages(images);
+      favoriteData = { ...favoriteData, imageUrl: ref };
+    }
     if ('id' in favoriteData) {
-      const updatedFavorite = favoriteData as Favorite;
-      setGroups(prevGroups => 
+      // Another tab may have changed it while the dialog was open: only the fields edited here are applied.
+      const current = groups.flatMap(g => g.favorites).find(f => f.id === favoriteData.id);
+      const { favorite: updatedFavorite, conflict } = current && editingFavorite
+        ? rebaseFavoriteEdit(editingFavorite, favoriteData as Favorite, current)
+        : { favorite: favoriteData as Favorite, conflict: null };
+      if (conflict) reportConflicts([conflict]);
+      commit('Edit favorite', prevGroups => 
         prevGroups.map(group => ({
           ...group,
           favorites: group.favorites.map(fav => fav.id === updatedFavorite.id ? updatedFavorite : fav)
@@ -236,13 +904,13 @@ const App: React.FC = () => {
       );
     } else {
       if (!activeGroupId) return;
-      const newFavorite = { ...favoriteData, id: `fav-${Date.now()}` };
-      setGroups(prev =>
+      const newFavorite = { ...favoriteData, id: createId('fav') };
+      commitLayout('Add favorite', prev =>
         prev.map(group =>
           group.id === activeGroupId ? { ...group, favorites: [...group.favorites, newFavorite] } : group
         )
       );
-      setNewlyAddedFavId(newFavorite.id);
+      setNewlyAddedFavIds([newFavorite.id]);
     }
     closeModal();
   };
@@ -253,25 +921,533 @@ const App: React.FC = () => {
     setActiveGroupId(null);
   }
 
+  // --- CONTEXT MENU ACTIONS ---
+  const updateFavorite = (label: string, favId: string, update: (fav: Favorite) => Favorite) => {
+    commit(label, prev => prev.map(group =>
+      group.favorites.some(f => f.id === favId)
+        ? { ...group, favorites: group.favorites.map(f => f.id === favId ? update(f) : f) }
+        : group
+    ));
+  };
+
+  const handleRenameFavorite = (fav: Favorite) => {
+    const name = prompt("Rename favorite:", fav.name)?.trim();
+    if (name && name !== fav.name) {
+      updateFavorite('Rename favorite', fav.id, f => ({ ...f, name }));
+    }
+  };
+
+  const handleDuplicateFavorite = (groupId: string, fav: Favorite) => {
+    const copy = { ...fav, id: createId('fav'), name: `${fav.name} (copy)` };
+    commitLayout('Duplicate favorite', prev => prev.map(group => {
+      if (group.id !== groupId) return group;
+      const index = group.favorites.findIndex(f => f.id === fav.id);
+      const favorites = [...group.favorites];
+      favorites.splice(index + 1, 0, copy);
+      return { ...group, favorites };
+    }));
+    setNewlyAddedFavIds([copy.id]);
+  };
+
+  const handleDeleteFavorite = (fav: Favorite) => {
+    if (window.confirm(`Delete "${fav.name}"?`)) {
+      commit('Delete favorite', prev => prev.map(group =>
+        group.favorites.some(f => f.id === fav.id)
+          ? { ...group, favorites: group.favorites.filter(f => f.id !== fav.id) }
+          : group
+      ));
+    }
+  };
+
+  const handleRenameGroup = (group: Group) => {
+    const name = prompt("Rename group:", group.name)?.trim();
+    if (name && name !== group.name) {
+      commit('Rename group', prev => prev.map(g => g.id === group.id ? { ...g, name } : g));
+    }
+  };
+
+  const handleEditGroup = (groupId: string, changes: Pick<Group, 'name' | 'color' | 'icon'>) => {
+    commit('Edit group', prev => prev.map(g => g.id === groupId ? { ...g, ...changes } : g));
+  };
+
+  const handleDuplicateGroup = (group: Group) => {
+    const favorites = group.favorites.map(fav => ({ ...fav, id: createId('fav') }));
+    const copy = { ...group, id: createId('group'), name: `${group.name} (copy)`, favorites, x: group.x + 80, y: group.y + 80 };
+    commitLayout('Duplicate group', prev => {
+      const index = prev.findIndex(g => g.id === group.id);
+      const next = [...prev];
+      next.splice(index + 1, 0, copy);
+      return next;
+    });
+    setNewlyAddedFavIds(favorites.map(f => f.id));
+  };
+
+  // Sub-systems of a deleted sun stay where they are drawn now.
+  const placedPositions = () => new Map<string, { x: number; y: number }>(placedGroups.map(g => [g.id, { x: g.x, y: g.y }]));
+
+  const handleDeleteGroup = (group: Group) => {
+    if (group.favorites.length > 0) {
+      setDeletingGroupId(group.id);
+    } else if (window.confirm(`Delete group "${group.name}"?`)) {
+      const positions = placedPositions();
+      commit('Delete group', prev => removeGroup(prev, group.id, positions));
+    }
+  };
+
+  const confirmDeleteGroup = (groupId: string, moveToGroupId: string | null) => {
+    const positions = placedPositions();
+    // Favorites moved to another group grow its orbit.
+    commitLayout('Delete group', prev => {
+      const orphans = prev.find(g => g.id === groupId)?.favorites ?? [];
+      return removeGroup(prev, groupId, positions)
+        .map(g => g.id === moveToGroupId ? { ...g, favorites: [...g.favorites, ...orphans] } : g);
+    });
+    if (moveToGroupId) {
+      setNewlyAddedFavIds(groups.find(g => g.id === groupId)?.favorites.map(f => f.id) ?? []);
+    }
+  };
+
+  const moveToGroupItems = (fromGroupId: string, fav: Favorite): ContextMenuItem[] =>
+    placedGroups
+      .filter(g => g.id !== fromGroupId && !g.hidden && !g.collapsed)
+      .map(g => ({ label: groupPath(groups, g.id), onSelect: () => startTravel([{ fromGroupId, item: fav }], g.id) }));
+
+  const handlePinFavorite = (fav: Favorite, pinnedAngle: number | undefined) => {
+    updateFavorite(pinnedAngle === undefined ? 'Unpin favorite' : 'Pin favorite', fav.id, f => ({ ...f, pinnedAngle }));
+  };
+
+  const handleShiftFavorite = (groupId: string, fav: Favorite, delta: number) => {
+    commit('Reorder favorite', prev => prev.map(group => {
+      if (group.id !== groupId) return group;
+      const index = group.favorites.findIndex(f => f.id === fav.id);
+      const target = Math.max(0, Math.min(group.favorites.length - 1, index + delta));
+      return { ...group, favorites: insertFavorite(group.favorites, fav, target) };
+    }));
+  };
+
+  const pinMenuItems = (group: Group, fav: Favorite): ContextMenuItem[] => {
+    const clockPins: [string, number][] = [["12 o'clock", 0], ["3 o'clock", 90], ["6 o'clock", 180], ["9 o'clock", 270]];
+    const items: ContextMenuItem[] = clockPins.map(([label, angle]) => ({
+      label: `${fav.pinnedAngle === angle ? '✓ ' : ''}${label}`,
+      onSelect: () => handlePinFavorite(fav, angle),
+    }));
+    const pos = planetPositions[fav.id];
+    if (pos) items.push({ label: 'Where it is now', onSelect: () => handlePinFavorite(fav, radiansToPin(angleAround(group, pos))) });
+    if (fav.pinnedAngle !== undefined) items.push({ label: 'Unpin', onSelect: () => handlePinFavorite(fav, undefined) });
+    return items;
+  };
+
+  const openFavoriteMenu = (x: number, y: number, group: Group, fav: Favorite) => {
+    if (isInMultiSelection(fav.id)) {
+      openSelectionMenu(x, y);
+      return;
+    }
+    const moveItems = moveToGroupItems(group.id, fav);
+    const index = group.favorites.findIndex(f => f.id === fav.id);
+    const isPinned = fav.pinnedAngle !== undefined;
+    setContextMenu({
+      x, y, title: fav.name,
+      items: [
+        { label: 'Edit…', onSelect: () => openEditModal(fav) },
+        { label: 'Fly to', onSelect: () => flyToFavorite(group.id, fav.id) },
+        ...(getLinkHandler(fav.type).embeddable && hasUsableLink(fav) ? [{ label: 'Open in workspace', onSelect: () => { recordUsage(fav.id); onOpenEmbed(fav); } }] : []),
+        { label: 'Rename…', onSelect: () => handleRenameFavorite(fav) },
+        { label: 'Duplicate', onSelect: () => handleDuplicateFavorite(group.id, fav) },
+        { label: 'Move to group…', items: moveItems, disabled: moveItems.length === 0 },
+        { label: 'Move back in orbit', onSelect: () => handleShiftFavorite(group.id, fav, -1), disabled: isPinned || index === 0 },
+        { label: 'Move forward in orbit', onSelect: () => handleShiftFavorite(group.id, fav, 1), disabled: isPinned || index === group.favorites.length - 1 },
+        { label: isPinned ? 'Pinned' : 'Pin to…', items: pinMenuItems(group, fav) },
+        { label: 'Delete', danger: true, onSelect: () => handleDeleteFavorite(fav) },
+      ],
+    });
+  };
+
+  // --- SELECTION ACTIONS ---
+  const moveSelectionItems = (): ContextMenuItem[] => {
+    const moving = selectedFavorites(groups, selection);
+    return placedGroups
+      .filter(g => !g.hidden && !g.collapsed && !moving.every(m => m.fromGroupId === g.id))
+      .map(g => ({ label: groupPath(groups, g.id), onSelect: () => startTravel(moving, g.id) }));
+  };
+
+  const openMoveSelectionMenu = (e: React.MouseEvent<HTMLElement>) => {
+    const { x, y } = anchorOf(e.currentTarget);
+    setContextMenu({ x, y, title: 'Move selected favorites to', items: moveSelectionItems() });
+  };
+
+  // Tags go on the selected favorites and on every favorite of a selected group.
+  const handleTagSelection = () => {
+    const ids = coveredFavoriteIds(groups, selection);
+    if (ids.size === 0) {
+      alert("The selected groups don't have any favorites to tag.");
+      return;
+    }
+    const tags = parseTags(prompt(`Add tags to ${ids.size} favorite${ids.size === 1 ? '' : 's'} (comma separated):`) ?? '');
+    if (tags.length > 0) {
+      commit('Tag favorites', prev => addTags(prev, ids, tags));
+      setAnnouncement(`Tagged ${ids.size} favorite${ids.size === 1 ? '' : 's'} with ${tags.join(', ')}`);
+    }
+  };
+
+  const handleDeleteSelection = () => {
+    const inGroups = selection.groupIds.length > 0
+      ? ` Favorites inside the selected groups are deleted too (${coveredFavoriteIds(groups, selection).size} in total).`
+      : '';
+    if (!window.confirm(`Delete ${describeSelection(selection).toLowerCase()}?${inGroups}`)) return;
+    const positions = placedPositions();
+    commit('Delete selection', prev => removeSelection(prev, selection, positions));
+    changeSelection(EMPTY_SELECTION);
+  };
+
+  // Exported as a board of its own, so it can be imported as a new board or merged into another.
+  const handleExportSelection = () => {
+    const exported: Board = {
+      id: createId('board'),
+      name: `${boardName} selection`,
+      groups: selectionGroups(groups, selection, placedPositions(), 'Selected favorites'),
+      view,
+    };
+    exported.usage = usageForGroups(usage, exported.groups);
+    exportBoards([exported], boardFileName(exported));
+  };
+
+  const openSelectionMenu = (x: number, y: number) => {
+    const moveItems = moveSelectionItems();
+    setContextMenu({
+      x, y, title: `${describeSelection(selection)} selected`,
+      items: [
+        { label: 'Move to group…', items: moveItems, disabled: moveItems.length === 0 },
+        { label: 'Tag…', onSelect: handleTagSelection },
+        { label: 'Export', onSelect: handleExportSelection },
+        { label: 'Export image', items: imageFormatItems('selection') },
+        { label: 'Clear selection', onSelect: () => changeSelection(EMPTY_SELECTION) },
+        { label: 'Delete…', danger: true, onSelect: handleDeleteSelection },
+      ],
+    });
+  };
+
+  // Right-clicking anything that is part of a larger selection acts on the whole selection.
+  const isInMultiSelection = (id: string) => (selectedGroupIds.has(id) || selectedFavIds.has(id)) && selectionSize(selection) > 1;
+
+  const handleChangeOrbitLayout = (groupId: string, layout: OrbitLayoutId) => {
+    commitLayout('Change orbit layout', prev => prev.map(g => g.id === groupId ? { ...g, layout } : g));
+  };
+
+  const handleToggleCollapsed = (group: Group) => {
+    commitLayout(group.collapsed ? 'Expand group' : 'Collapse group', prev => prev.map(g => g.id === group.id ? { ...g, collapsed: !g.collapsed } : g));
+  };
+
+  const handleNestGroup = (group: Group, parentId: string) => {
+    commitLayout('Nest group', prev => nestGroup(prev, group.id, parentId));
+  };
+
+  const handleDetachGroup = (group: Group) => {
+    const placed = placedGroups.find(g => g.id === group.id)!;
+    commitLayout('Detach group', prev => detachGroup(prev, group.id, { x: placed.x, y: placed.y }));
+  };
+
+  const openGroupMenu = (x: number, y: number, group: Group) => {
+    if (isInMultiSelection(group.id)) {
+      openSelectionMenu(x, y);
+      return;
+    }
+    const currentLayout = group.layout ?? DEFAULT_ORBIT_LAYOUT;
+    const layoutItems = (Object.keys(ORBIT_LAYOUTS) as OrbitLayoutId[]).map(id => ({
+      label: `${id === currentLayout ? '✓ ' : ''}${ORBIT_LAYOUTS[id].label}`,
+      onSelect: () => handleChangeOrbitLayout(group.id, id),
+    }));
+    const parentItems = groups
+      .filter(g => g.id !== group.parentId && canNest(groups, group.id, g.id))
+      .map(g => ({ label: groupPath(groups, g.id), onSelect: () => handleNestGroup(group, g.id) }));
+    setContextMenu({
+      x, y, title: group.name,
+      items: [
+        { label: 'Add favorite…', onSelect: () => openAddModal(group.id), disabled: group.collapsed },
+        { label: 'Edit…', onSelect: () => setEditingGroupId(group.id) },
+        { label: 'Fly to', onSelect: () => flyToGroup(group.id) },
+        { label: 'Add sub-group…', onSelect: () => handleAddSubGroup(group) },
+        { label: 'Rename…', onSelect: () => handleRenameGroup(group) },
+        { label: 'Duplicate', onSelect: () => handleDuplicateGroup(group) },
+        { label: group.collapsed ? 'Expand' : 'Collapse', onSelect: () => handleToggleCollapsed(group) },
+        { label: 'Move into…', items: parentItems, disabled: parentItems.length === 0 },
+        ...(group.parentId ? [{ label: 'Detach from parent', onSelect: () => handleDetachGroup(group) }] : []),
+        { label: 'Orbit layout', items: layoutItems },
+        { label: 'Delete…', danger: true, onSelect: () => handleDeleteGroup(group) },
+      ],
+    });
+  };
+
+  // Opens a menu from the keyboard (Shift+F10 or the ContextMenu key), anchored to the focused element.
+  const isMenuKey = (e: React.KeyboardEvent) => e.key === 'ContextMenu' || (e.shiftKey && e.key === 'F10');
+
+  const anchorOf = (el: HTMLElement) => {
+    const rect = el.getBoundingClientRect();
+    return { x: rect.left + rect.width / 2, y: rect.bottom };
+  };
+
   const handleFavoriteClick = (e: React.MouseEvent, fav: Favorite) => {
       e.preventDefault();
-      if (fav.type === 'web' && fav.openBehavior === 'modal') {
-          setIframeUrl(fav.url);
+      if (e.shiftKey) {
+        changeSelection(toggleFavorite(selection, fav.id));
+        return;
+      }
+      openFavorite(fav);
+  };
+
+  const openFavorite = (fav: Favorite) => {
+      if (!hasUsableLink(fav)) {
+        openEditModal(fav);
+        return;
+      }
+      recordUsage(fav.id);
+      const handler = getLinkHandler(fav.type);
+      if (handler.embeddable && fav.openBehavior === 'modal' && !isFramingRefused(fav.url)) {
+          onOpenEmbed(fav);
       } else {
           setClickedFavoriteId(fav.id);
           setTimeout(() => {
-            window.open(fav.url, '_blank', 'noopener,noreferrer');
+            openLinkTarget(handler.resolve(fav));
             setClickedFavoriteId(null);
           }, 500);
       }
   };
 
-  const handleExport = () => {
-    const jsonString = `data:text/json;charset=utf-8,${encodeURIComponent(JSON.stringify(groups, null, 2))}`;
-    const link = document.createElement("a");
-    link.href = jsonString;
-    link.download = "visual-favorites-backup.json";
-    link.click();
+  const exportWorkspace = (data: Workspace, filename: string) => {
+    downloadText(JSON.stringify(createEnvelope(data), null, 2), filename, "text/json");
+  };
+
+  // Exports carry only the images their boards use.
+  const exportBoards = (boards: Board[], filename: string) => {
+    exportWorkspace({ boards, activeBoardId: board.id, images: referencedImages(boards, workspace.images) }, filename);
+  };
+
+  const exportAllBoards = () => {
+    exportBoards(updateBoard(workspace, board.id, { groups, view }).boards, "visual-favorites-backup.json");
+  };
+
+  const handleExport = (e: React.MouseEvent<HTMLElement>) => {
+    const current: Board = { ...board, name: boardName, groups, view, usage };
+    const { x, y } = anchorOf(e.currentTarget);
+    setContextMenu({
+      x, y, title: 'Export JSON',
+      items: [
+        { label: `This board (${boardName})`, onSelect: () => exportBoards([current], boardFileName(current)) },
+        { label: 'All boards', onSelect: exportAllBoards, disabled: workspace.boards.length < 2 },
+      ],
+    });
+  };
+
+  // --- USAGE ---
+  const usage = useMemo<UsageStats>(() => workspace.boards.find(b => b.id === board.id)?.usage ?? {}, [workspace.boards, board.id]);
+  const levels = useMemo(() => (usageView.highlight ? usageLevels(groups, usage) : new Map()), [usageView.highlight, groups, usage]);
+  const usageSun = useMemo(() => {
+    if (!usageView.sun) return null;
+    const center = usageSunPosition(placedGroups);
+    const favorites = topFavorites(groups, usage, usageView.sun);
+    // Laid out like a real sun's orbit, but kept apart so its planets don't collide with the originals.
+    return { ...center, favorites, positions: computePlanetPositions([{ id: 'usage-sun', name: '', favorites, ...center }]) };
+  }, [usageView.sun, placedGroups, groups, usage]);
+
+  useEffect(() => {
+    saveUsageView(usageView);
+  }, [usageView]);
+
+  // Read from the workspace being updated rather than this render, so quick repeat opens all count.
+  const recordUsage = (favoriteId: string) => {
+    updateWorkspace(ws => {
+      const current = ws.boards.find(b => b.id === board.id)?.usage ?? {};
+      return updateBoard(ws, board.id, { usage: recordOpen(current, favoriteId) });
+    });
+  };
+
+  // Stale favorites go into a collapsed Archive sun, created next to everything else the first time.
+  const handleArchive = (favoriteIds: string[]) => {
+    const ids = new Set(favoriteIds);
+    const items = groups.flatMap(g => g.favorites).filter(f => ids.has(f.id));
+    commitLayout('Archive favorites', prev => {
+      const archive = prev.find(g => g.name === ARCHIVE_GROUP_NAME && !g.parentId);
+      if (archive) return moveFavorites(prev, items, archive.id);
+      const [spot] = findFreePositions(rootSystems(prev), 1, usageSunPosition(prev));
+      const created: Group = { id: createId('group'), name: ARCHIVE_GROUP_NAME, favorites: [], collapsed: true, ...spot };
+      return moveFavorites([...prev, created], items, created.id);
+    });
+    setAnnouncement(`Archived ${items.length} favorite${items.length === 1 ? '' : 's'}`);
+  };
+
+  const handleDeleteStale = (favoriteIds: string[]) => {
+    commit('Delete unused favorites', prev => removeSelection(prev, { groupIds: [], favoriteIds }, placedPositions()));
+  };
+
+  const openUsageMenu = (e: React.MouseEvent<HTMLElement>) => {
+    const { x, y } = anchorOf(e.currentTarget);
+    const showSun = (sun: UsageView['sun']) => setUsageView(prev => ({ ...prev, sun: prev.sun === sun ? null : sun }));
+    setContextMenu({
+      x, y, title: 'Usage',
+      items: [
+        {
+          label: `${usageView.highlight ? '✓ ' : ''}Highlight by usage`,
+          onSelect: () => setUsageView(prev => ({ ...prev, highlight: !prev.highlight })),
+        },
+        { label: `${usageView.sun === 'recent' ? '✓ ' : ''}Recent sun`, onSelect: () => showSun('recent') },
+        { label: `${usageView.sun === 'frequent' ? '✓ ' : ''}Frequent sun`, onSelect: () => showSun('frequent') },
+        { label: 'Unused favorites…', onSelect: () => setIsStaleReportOpen(true), disabled: groups.every(g => g.favorites.length === 0) },
+      ],
+    });
+  };
+
+  // --- BOARDS ---
+  const boardName = workspace.boards.find(b => b.id === board.id)?.name ?? board.name;
+
+  const handleSwitchBoard = (id: string) => {
+    updateWorkspace(ws => ({ ...ws, activeBoardId: id }));
+  };
+
+  const handleCreateBoard = () => {
+    const name = prompt("New board name:")?.trim();
+    if (name) updateWorkspace(ws => addBoard(ws, name));
+  };
+
+  const handleRenameBoard = () => {
+    const name = prompt("Rename board:", boardName)?.trim();
+    if (name && name !== boardName) updateWorkspace(ws => updateBoard(ws, board.id, { name }));
+  };
+
+  const handleCloneBoard = () => {
+    updateWorkspace(ws => cloneBoard(ws, board.id));
+  };
+
+  const handleDeleteBoard = () => {
+    if (window.confirm(`Delete the board "${boardName}" and everything on it? This can't be undone.`)) {
+      clearHistory(board.id);
+      // Changes still waiting for a team board's server would otherwise stay behind for good.
+      clearTeamQueue(board.id);
+      updateWorkspace(ws => removeBoard(ws, board.id));
+    }
+  };
+
+  // A team board is found by its id on a sync server; the link carries both.
+  const teamLink = (server: string) => `${server}#${encodeURIComponent(board.id)}`;
+
+  // Others see this name next to the cursor and in the list of who is here.
+  const ensureTeamName = () => {
+    const saved = loadTeamName();
+    if (saved) return saved;
+    const name = prompt("Your name, as others on the team board will see it:")?.trim();
+    if (name) saveTeamName(name);
+    return name;
+  };
+
+  const handleShareBoard = () => {
+    const server = prompt("Sync server address:", DEFAULT_SYNC_SERVER)?.trim();
+    if (!server) return;
+    if (!/^wss?:\/\//.test(server)) {
+      alert("The sync server address starts with ws:// or wss://, e.g. " + DEFAULT_SYNC_SERVER);
+      return;
+    }
+    if (!ensureTeamName()) return;
+    updateWorkspace(ws => updateBoard(ws, board.id, { team: { server } }));
+    prompt("Send this link to the people you want on this board:", teamLink(server));
+  };
+
+  const handleJoinTeamBoard = () => {
+    const link = prompt("Team board link:")?.trim();
+    if (!link) return;
+    const match = link.match(/^(wss?:\/\/[^#\s]+)#(.+)$/);
+    if (!match) {
+      alert("That doesn't look like a team board link. It looks like " + `${DEFAULT_SYNC_SERVER}#board-…`);
+      return;
+    }
+    const [, server, id] = match;
+    const boardId = decodeURIComponent(id);
+    const exists = workspace.boards.some(b => b.id === boardId);
+    const name = exists ? '' : prompt("Name for this board:", "Team board")?.trim();
+    if ((!exists && !name) || !ensureTeamName()) return;
+    updateWorkspace(ws => joinTeamBoard(ws, boardId, name, { server }));
+  };
+
+  const handleStopSharing = () => {
+    if (!window.confirm(`Stop syncing "${boardName}"? It stays here as a local board; changes not sent yet are dropped.`)) return;
+    clearTeamQueue(board.id);
+    updateWorkspace(ws => updateBoard(ws, board.id, { team: undefined }));
+  };
+
+  const handleImportAsBoard = (imported: Board[]) => {
+    updateWorkspace(ws => appendBoards(ws, imported));
+    setAnnouncement(`Added ${imported.length === 1 ? `board ${imported[0].name}` : `${imported.length} boards`}`);
+  };
+
+  const openBoardMenu = (e: React.MouseEvent<HTMLElement>) => {
+    const { x, y } = anchorOf(e.currentTarget);
+    setContextMenu({
+      x, y, title: boardName,
+      items: [
+        { label: 'New board…', onSelect: handleCreateBoard },
+        { label: 'Rename…', onSelect: handleRenameBoard },
+        { label: 'Clone', onSelect: handleCloneBoard },
+        team
+          ? { label: 'Team link…', onSelect: () => prompt("Team board link:", teamLink(team.server)) }
+          : { label: 'Share as team board…', onSelect: handleShareBoard },
+        { label: 'Join team board…', onSelect: handleJoinTeamBoard },
+        ...(team ? [{ label: 'Stop syncing…', onSelect: handleStopSharing }] : []),
+        { label: 'Delete…', danger: true, onSelect: handleDeleteBoard, disabled: workspace.boards.length < 2 },
+      ],
+    });
+  };
+
+  const handleExportBookmarks = () => {
+    downloadText(exportBookmarksHtml(groups, workspace.images), "visual-favorites-bookmarks.html", "text/html");
+  };
+
+  // --- IMAGE EXPORT ---
+  const exportRegion = (area: ExportArea) => {
+    if (area === 'visible') return visibleBounds(liveView.current, viewportSize);
+    if (area === 'selection') return selectionRegion(placedGroups, planetPositions, selection.groupIds, selection.favoriteIds);
+    return boardRegion(placedGroups);
+  };
+
+  const handleExportImage = async (area: ExportArea, format: 'svg' | 'png') => {
+    const region = exportRegion(area);
+    if (!region) {
+      alert('There is nothing on the board to export yet.');
+      return;
+    }
+    const title = area === 'selection' ? `${boardName} selection` : boardName;
+    const image = renderCanvasSvg(placedGroups, workspace.images, region, title);
+    if (format === 'svg') {
+      downloadText(image.svg, boardFileName({ name: title }, 'svg'), 'image/svg+xml');
+      return;
+    }
+    try {
+      downloadBlob(await renderCanvasPng(image), boardFileName({ name: title }, 'png'));
+    } catch (error) {
+      alert(`Couldn't create the PNG: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  const imageFormatItems = (area: ExportArea): ContextMenuItem[] => [
+    { label: 'SVG', onSelect: () => handleExportImage(area, 'svg') },
+    { label: 'PNG', onSelect: () => handleExportImage(area, 'png') },
+  ];
+
+  // Opened in a tab of its own, where the browser's print dialog can also save it as a PDF.
+  const handlePrintableList = () => {
+    const html = renderPrintableList(groups, boardName);
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    if (!window.open(url, '_blank')) downloadText(html, boardFileName({ name: boardName }, 'html'), 'text/html');
+    setTimeout(() => URL.revokeObjectURL(url), 60_000);
+  };
+
+  const handleExportImageMenu = (e: React.MouseEvent<HTMLElement>) => {
+    const { x, y } = anchorOf(e.currentTarget);
+    setContextMenu({
+      x, y, title: 'Image & print',
+      items: [
+        { label: 'Whole board', items: imageFormatItems('board') },
+        { label: 'Visible area', items: imageFormatItems('visible') },
+        { label: 'Selection', items: imageFormatItems('selection'), disabled: selectionSize(selection) === 0 },
+        { label: 'Printable list…', onSelect: handlePrintableList },
+      ],
+    });
   };
 
   const handleImportClick = () => {
@@ -285,14 +1461,27 @@ const App: React.FC = () => {
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
-        const text = e.target?.result;
-        const importedGroups = JSON.parse(text as string);
-        if (Array.isArray(importedGroups) && importedGroups.every(g => 'id' in g && 'name' in g && 'favorites' in g)) {
-           if(window.confirm("This will overwrite your current layout. Are you sure?")) {
-              setGroups(importedGroups);
-           }
-        } else {
-          alert("Invalid file format.");
+        const text = e.target?.result as string;
+        if (isBookmarksHtml(text)) {
+          const folders = parseBookmarksHtml(text);
+          if (folders.length > 0) {
+            setBookmarkFolders(folders);
+          } else {
+            alert("No bookmarks found in this file.");
+          }
+          return;
+        }
+        const result = parseStoredData(text);
+        if (!result.ok) {
+          alert(`Invalid file format.\n\n${formatIssues(result.errors)}`);
+          return;
+        }
+        // Images unused after a cancelled import are dropped the next time the app loads.
+        addImages(result.value.images);
+        if (result.value.boards.length === 1) {
+          setImportedBoard(result.value.boards[0]);
+        } else if (window.confirm(`This file contains ${result.value.boards.length} boards. Add them alongside your current boards?`)) {
+          handleImportAsBoard(result.value.boards);
         }
       } catch (error) {
         alert("Error reading or parsing the file.");
@@ -301,163 +1490,599 @@ const App: React.FC = () => {
     reader.readAsText(file);
     event.target.value = '';
   };
+
+  const handleMergeImport = (theirs: Group[], resolutions: Record<string, ConflictResolution>) => {
+    const existingIds = new Set(groups.flatMap(g => g.favorites.map(f => f.id)));
+    const merged = applyMerge(groups, theirs, resolutions);
+    commitLayout('Merge import', () => merged);
+    setNewlyAddedFavIds(merged.flatMap(g => g.favorites.map(f => f.id)).filter(id => !existingIds.has(id)));
+  };
+
+  const handleBookmarkImport = (plan: BookmarkImportPlan, mode: 'merge' | 'replace') => {
+    const imported = withInternedImages(plan.groups);
+    commitLayout(mode === 'merge' ? 'Import bookmarks' : 'Replace with bookmarks', () => imported);
+    const existingIds = new Set(groups.flatMap(g => g.favorites.map(f => f.id)));
+    setNewlyAddedFavIds(plan.groups.flatMap(g => g.favorites.map(f => f.id)).filter(id => !existingIds.has(id)));
+  };
   
-  const planetPositions = useMemo(() => {
-    const positions: { [key: string]: { x: number, y: number } } = {};
-    groups.forEach(group => {
-        const count = group.favorites.length;
-        group.favorites.forEach((fav, i) => {
-            const angle = (i / count) * 2 * Math.PI;
-            positions[fav.id] = {
-                x: group.x + ORBIT_RADIUS * Math.cos(angle),
-                y: group.y + ORBIT_RADIUS * Math.sin(angle),
-            };
-        });
-    });
-    return positions;
-  }, [groups]);
+  // Suns that currently show their orbit; collapsed and hidden ones take no drops.
+  const orbitingGroups = useMemo(() => placedGroups.filter(g => !g.hidden && !g.collapsed), [placedGroups]);
+  const planetPositions = useMemo(() => computePlanetPositions(orbitingGroups), [orbitingGroups]);
 
   // --- DRAG AND DROP FAVORITES ---
-  const handleDragStart = (e: React.DragEvent, fromGroup: Group, item: Favorite) => {
-    dragItem.current = { fromGroupId: fromGroup.id, item };
-    setTimeout(() => { (e.target as HTMLElement).classList.add('dragging'); }, 0);
+  const screenToWorld = (clientX: number, clientY: number) => {
+    const rect = rootRef.current!.getBoundingClientRect();
+    const { pan, zoom } = liveView.current;
+    return { x: (clientX - rect.left - pan.x) / zoom, y: (clientY - rect.top - pan.y) / zoom };
   };
 
-  const handleDragEnterGroup = (e: React.DragEvent, groupId: string) => {
-    dragOverGroup.current = groupId;
-    (e.currentTarget as HTMLElement).classList.add('drag-over-group');
+  // A pinned favorite follows the pointer's angle; any other one takes the slot nearest the pointer.
+  const resolveDropTarget = (item: Favorite, point: { x: number; y: number }): DropTarget | null => {
+    const group = findDropGroup(orbitingGroups, point);
+    if (!group) return null;
+    if (item.pinnedAngle !== undefined) {
+      const placed = { ...item, pinnedAngle: radiansToPin(angleAround(group, point)) };
+      const currentIndex = group.favorites.findIndex(f => f.id === item.id);
+      const index = currentIndex >= 0 ? currentIndex : group.favorites.length;
+      return { groupId: group.id, index, item: placed, position: insertionPosition(group, placed, index) };
+    }
+    const index = findInsertionIndex(group, item, point);
+    return { groupId: group.id, index, item, position: insertionPosition(group, item, index) };
   };
+
+  const landFavorites = (items: Favorite[], toGroupId: string, toIndex: number) => {
+    commitLayout(items.length > 1 ? 'Move favorites' : 'Move favorite', prev => moveFavorites(prev, items, toGroupId, toIndex));
+  };
+
+  // All moving favorites fly at once and land side by side.
+  const startTravel = (moving: SelectedFavorite[], toGroupId: string, toIndex?: number) => {
+    const items = moving.map(m => m.item);
+    const toGroup = placedGroups.find(g => g.id === toGroupId)!;
+    const ids = new Set<string>(items.map(f => f.id));
+    // Without an explicit slot the items are appended to the destination's orbit
+    const index = toIndex ?? toGroup.favorites.filter(f => !ids.has(f.id)).length;
+    const endPositions = computePlanetPositions(moveFavorites([toGroup], items, toGroupId, index));
+    // Planets without a spot on screen (e.g. in a collapsed system) just appear at their new one.
+    const legs: TravelingItem[] = moving.map(({ item, fromGroupId }) => ({
+      item, fromGroupId, startPos: planetPositions[item.id] ?? endPositions[item.id], endPos: endPositions[item.id],
+    }));
+    if (legs.every(leg => Math.hypot(leg.endPos.x - leg.startPos.x, leg.endPos.y - leg.startPos.y) < 1)) {
+      landFavorites(items, toGroupId, index);
+      return;
+    }
+    setTravel({ items: legs, toGroupId, toIndex: index });
+  };
+
+  const handleTravelEnd = () => {
+    if (!travel) return;
+    landFavorites(travel.items.map(leg => leg.item), travel.toGroupId, travel.toIndex);
+    setTravel(null);
+  };
+
+  // The leg that travels furthest reports the landing; one that doesn't move never fires transitionend.
+  const leadLeg = travel ? travel.items.reduce((best, leg) =>
+    Math.hypot(leg.endPos.x - leg.startPos.x, leg.endPos.y - leg.startPos.y) > Math.hypot(best.endPos.x - best.startPos.x, best.endPos.y - best.startPos.y) ? leg : best
+  ) : null;
+  const travelingIds = new Set<string>(travel?.items.map(leg => leg.item.id) ?? []);
   
-  const handleDragLeaveGroup = (e: React.DragEvent) => {
-    (e.currentTarget as HTMLElement).classList.remove('drag-over-group');
+  // --- VIEW NAVIGATION ---
+  const visibleGroups = useMemo(() => placedGroups.filter(g => !g.hidden), [placedGroups]);
+
+  const systemBounds = (systems: typeof placedGroups) => boundsOf(systems.map(g => ({ x: g.x, y: g.y, radius: visibleOrbitExtent(g) })));
+
+  const handleFitAll = () => {
+    const bounds = systemBounds(visibleGroups);
+    if (bounds) flyTo(view, fitBounds(bounds, viewportSize), viewportSize);
   };
 
-  const handleDrop = () => {
-    if (!dragItem.current || !dragOverGroup.current || dragItem.current.fromGroupId === dragOverGroup.current) {
-        cleanupDragClasses();
-        return;
+  const flyToGroup = (groupId: string) => {
+    const inside = new Set([groupId, ...descendantIds(groups, groupId)]);
+    const bounds = systemBounds(visibleGroups.filter(g => inside.has(g.id)));
+    if (bounds) flyTo(view, fitBounds(bounds, viewportSize), viewportSize);
+  };
+
+  // A favorite inside a collapsed system has no planet on screen, so the nearest visible sun stands in for it.
+  const flyToFavorite = (groupId: string, favId: string) => {
+    const pos = planetPositions[favId];
+    if (pos) {
+      flyTo(view, centerOn(pos, Math.max(view.zoom, FOCUS_ZOOM), viewportSize), viewportSize);
+      return;
     }
-    const { fromGroupId, item } = dragItem.current;
-    const toGroupId = dragOverGroup.current;
+    const standIn = [groupId, ...ancestorIds(groups, groupId)].find(id => visibleGroups.some(g => g.id === id));
+    if (standIn) flyToGroup(standIn);
+  };
 
-    const startPos = planetPositions[item.id];
-    
-    // Temporarily add item to destination to calculate new position
-    const toGroup = groups.find(g => g.id === toGroupId)!;
-    const tempToGroupFavorites = [...toGroup.favorites, item];
-    const newIndex = tempToGroupFavorites.length -1;
-    const newCount = tempToGroupFavorites.length;
-    const angle = (newIndex / newCount) * 2 * Math.PI;
-    const endPos = { 
-        x: toGroup.x + ORBIT_RADIUS * Math.cos(angle), 
-        y: toGroup.y + ORBIT_RADIUS * Math.sin(angle) 
-    };
-    
-    if (startPos && endPos) {
-      setTravelingItem({ item, startPos, endPos, fromGroupId, toGroupId });
+  const handleMinimapCenter = (point: { x: number; y: number }) => {
+    stopFlight();
+    setView(prev => centerOn(point, prev.zoom, viewportSize));
+  };
+
+  const changeSearch = (query: string) => {
+    setSearchQuery(query);
+    setSearchCursor(-1);
+  };
+
+  const selectSearchResult = (index: number) => {
+    const hit = searchList[index];
+    setSearchCursor(index);
+    flyToFavorite(hit.groupId, hit.favorite.id);
+  };
+
+  // The arrow keys walk the result list (flying to each one), Enter opens the current or best match.
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        if (searchList.length === 0) return;
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setIsSearchOpen(true);
+        selectSearchResult(searchCursor < 0 && step < 0 ? searchList.length - 1 : (searchCursor + step + searchList.length) % searchList.length);
+        break;
+      }
+      case 'Enter': {
+        const hit = searchList[Math.max(0, searchCursor)];
+        if (!hit) return;
+        e.preventDefault();
+        setIsSearchOpen(false);
+        openFavorite(hit.favorite);
+        break;
+      }
+      case 'Escape':
+        e.preventDefault();
+        if (isSearchOpen && searchList.length > 0) setIsSearchOpen(false);
+        else changeSearch('');
+        break;
     }
-    cleanupDragClasses();
   };
 
-  const handleTravelEnd = () => {
-    if (!travelingItem) return;
-    const { item, fromGroupId, toGroupId } = travelingItem;
-    setGroups(prev =>
-      prev.map(group => {
-        if (group.id === fromGroupId) {
-          return { ...group, favorites: group.favorites.filter(f => f.id !== item.id) };
+  const handleSaveSearch = () => {
+    const query = searchQuery.trim();
+    if (query && !savedSearches.includes(query)) setSavedSearches(prev => [...prev, query]);
+  };
+
+  const handleRemoveSavedSearch = (query: string) => {
+    setSavedSearches(prev => prev.filter(q => q !== query));
+  };
+
+  const currentHitId = searchCursor >= 0 ? searchList[searchCursor]?.favorite.id : undefined;
+  const isSearchSaved = savedSearches.includes(searchQuery.trim());
+
+  // --- KEYBOARD NAVIGATION ---
+  // The canvas is one tab stop (roving focus): Tab walks the suns, the arrow keys walk an orbit.
+  const navSuns = useMemo(() => navigableSuns(placedGroups), [placedGroups]);
+  const focusedNode = findNode(navSuns, focusedKey);
+  const activeKey = focusedNode?.key ?? (navSuns[0] ? groupKey(navSuns[0].id) : null);
+
+  const focusNode = (key: string) => {
+    focusRequested.current = true;
+    setFocusedKey(key);
+  };
+
+  // Pans just enough to bring a focused sun or planet back into view.
+  const revealElement = (el: HTMLElement) => {
+    const bounds = rootRef.current!.getBoundingClientRect();
+    const rect = el.getBoundingClientRect();
+    const shift = (start: number, end: number, min: number, max: number) =>
+      start < min + REVEAL_MARGIN ? min + REVEAL_MARGIN - start : end > max - REVEAL_MARGIN ? max - REVEAL_MARGIN - end : 0;
+    const dx = shift(rect.left, rect.right, bounds.left, bounds.right);
+    const dy = shift(rect.top, rect.bottom, bounds.top, bounds.bottom);
+    if (dx || dy) setView(prev => panBy(prev, dx, dy));
+  };
+
+  // A keyboard move can remount the target (e.g. a favorite landing in another group), so focus is
+  // applied after render, and only once any travel animation is over.
+  useEffect(() => {
+    if (!focusRequested.current || !focusedKey || travel) return;
+    const el = rootRef.current?.querySelector<HTMLElement>(`[data-nav-key="${CSS.escape(focusedKey)}"]`);
+    if (!el) return;
+    focusRequested.current = false;
+    el.focus({ preventScroll: true });
+    revealElement(el);
+  }, [focusedKey, groups, travel]);
+
+  const handleCanvasFocus = (e: React.FocusEvent) => {
+    const key = (e.target as HTMLElement).closest<HTMLElement>('[data-nav-key]')?.dataset.navKey;
+    if (key && key !== focusedKey) setFocusedKey(key);
+  };
+
+  // Where a carried favorite lands when dropped on `node`: in the planet's slot, or at the end of a sun's orbit.
+  const carryIndex = (node: CanvasNode) => (node.kind === 'favorite' ? node.index : node.group.favorites.length);
+
+  const canDropOn = (node: CanvasNode | null) => !!node && !node.group.collapsed;
+
+  const pickUpFavorite = (node: Extract<CanvasNode, { kind: 'favorite' }>) => {
+    setCarrying({ fromGroupId: node.group.id, item: node.favorite });
+    setAnnouncement(`Picked up ${node.favorite.name}. Move to a group or favorite and press Space to drop it there, or Escape to cancel.`);
+  };
+
+  const dropCarried = (node: CanvasNode) => {
+    if (!carrying) return;
+    const { item, fromGroupId } = carrying;
+    if (!canDropOn(node)) {
+      setAnnouncement(`${node.group.name} is collapsed. Expand it before dropping.`);
+      return;
+    }
+    const index = carryIndex(node);
+    if (node.group.id === fromGroupId) {
+      commit('Reorder favorite', prev => prev.map(group =>
+        group.id === fromGroupId ? { ...group, favorites: insertFavorite(group.favorites, item, index) } : group
+      ));
+    } else {
+      startTravel([{ fromGroupId, item }], node.group.id, index);
+    }
+    setCarrying(null);
+    setAnnouncement(`Dropped ${item.name} in ${node.group.name}, position ${Math.min(index, node.group.favorites.length) + 1}.`);
+    focusNode(favoriteKey(item.id));
+  };
+
+  const cancelCarry = () => {
+    if (!carrying) return;
+    setAnnouncement(`Cancelled moving ${carrying.item.name}.`);
+    setCarrying(null);
+    focusNode(favoriteKey(carrying.item.id));
+  };
+
+  const handleCanvasKeyDown = (e: React.KeyboardEvent) => {
+    if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+    const target = e.target as HTMLElement;
+    const node = findNode(navSuns, target.closest<HTMLElement>('[data-nav-key]')?.dataset.navKey ?? null);
+
+    if (e.key === '+' || e.key === '=' || e.key === '-' || e.key === '_') {
+      e.preventDefault();
+      stopFlight();
+      const bounds = rootRef.current!.getBoundingClientRect();
+      const zoom = zoomAt(e.key === '+' || e.key === '=' ? ZOOM_STEP : 1 / ZOOM_STEP, bounds.left + bounds.width / 2, bounds.top + bounds.height / 2);
+      setAnnouncement(`Zoom ${Math.round(zoom * 100)}%`);
+      return;
+    }
+    if (e.shiftKey && e.key.startsWith('Arrow')) {
+      e.preventDefault();
+      stopFlight();
+      const dx = e.key === 'ArrowLeft' ? PAN_STEP : e.key === 'ArrowRight' ? -PAN_STEP : 0;
+      const dy = e.key === 'ArrowUp' ? PAN_STEP : e.key === 'ArrowDown' ? -PAN_STEP : 0;
+      setView(prev => panBy(prev, dx, dy));
+      return;
+    }
+    if (!node) return;
+
+    const move = (to: NavigationMove) => {
+      const next = nextFocus(navSuns, node.key, to);
+      if (next) {
+        e.preventDefault();
+        focusNode(next);
+      }
+    };
+    // Enter and Space act on the sun or planet itself, not on a button inside it.
+    const onNode = target.dataset.navKey === node.key;
+
+    switch (e.key) {
+      case 'Tab':
+        move(e.shiftKey ? 'previousSun' : 'nextSun');
+        break;
+      case 'ArrowRight':
+      case 'ArrowDown':
+        move('nextPlanet');
+        break;
+      case 'ArrowLeft':
+      case 'ArrowUp':
+        move('previousPlanet');
+        break;
+      case 'Home':
+        move('firstPlanet');
+        break;
+      case 'End':
+        move('lastPlanet');
+        break;
+      case 'Escape':
+        if (carrying) {
+          e.preventDefault();
+          cancelCarry();
+        } else if (selectionSize(selection) > 0) {
+          e.preventDefault();
+          changeSelection(EMPTY_SELECTION);
+        } else {
+          move('sun');
         }
-        if (group.id === toGroupId) {
-          return { ...group, favorites: [...group.favorites, item] };
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (selectionSize(selection) > 0) {
+          e.preventDefault();
+          handleDeleteSelection();
         }
-        return group;
-      })
-    );
-    setTravelingItem(null);
-  };
-  
-  const handleDragEnd = () => {
-     cleanupDragClasses();
+        break;
+      case ' ':
+      case 'Enter':
+        if (!onNode) break;
+        if (e.key === ' ' && e.shiftKey && !carrying) {
+          e.preventDefault();
+          changeSelection(node.kind === 'favorite' ? toggleFavorite(selection, node.favorite.id) : toggleGroup(selection, node.group.id));
+        } else if (carrying) {
+          e.preventDefault();
+          dropCarried(node);
+        } else if (e.key === ' ' && node.kind === 'favorite') {
+          e.preventDefault();
+          pickUpFavorite(node);
+        } else if (node.kind === 'group') {
+          e.preventDefault();
+          handleToggleCollapsed(node.group);
+        }
+        break;
+    }
   };
 
-  const cleanupDragClasses = () => {
-    dragItem.current = null;
-    dragOverGroup.current = null;
-    document.querySelectorAll('.drag-over-group, .dragging').forEach(el => 
-        el.classList.remove('drag-over-group', 'dragging')
-    );
-  }
+  // --- RENDERING ---
+  // Only what is on screen, plus CULL_MARGIN around it, is rendered. The roving tab stop and the
+  // focused item always are, so keyboard focus has an element to land on wherever it goes.
+  const cullBounds = useMemo(() => renderBounds(view, viewportSize), [view, viewportSize]);
+  const orbitsInView = useMemo(() => new Set<string>(orbitingGroups
+    .filter(g => isInside(cullBounds, { x: g.x, y: g.y, radius: visibleOrbitExtent(g) }))
+    .map(g => g.id)), [orbitingGroups, cullBounds]);
+  const alwaysRendered = new Set<string>([activeKey, focusedKey].filter(Boolean));
+  const isRendered = (key: string, point: { x: number; y: number }) => alwaysRendered.has(key) || isInside(cullBounds, point);
+  // Zoomed far out, planets are plain dots and their connection lines are left out.
+  const isSimplified = view.zoom < DETAIL_ZOOM;
+
+  const carryMarker = carrying && canDropOn(focusedNode) ? insertionPosition(focusedNode!.group, carrying.item, carryIndex(focusedNode!)) : null;
+
+  const deletingGroup = groups.find(g => g.id === deletingGroupId);
+  const editingGroup = groups.find(g => g.id === editingGroupId);
 
   return (
-    <div id="root-container" ref={rootRef} onWheel={handleWheel} onMouseDown={handleMouseDown}>
+    <div
+      id="root-container"
+      ref={rootRef}
+      className={isGridEnabled ? 'show-grid' : undefined}
+      style={isGridEnabled ? gridStyle(liveView.current) : undefined}
+      onWheel={handleWheel}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={() => teamSync.sendCursor(null)}
+      onClickCapture={handleClickCapture}
+      onContextMenuCapture={handleContextMenuCapture}
+    >
       <header>
         <h1>Visual Favorites</h1>
+        <div className="board-switcher">
+          <select
+            className="board-select"
+            value={board.id}
+            onChange={(e) => handleSwitchBoard(e.target.value)}
+            aria-label="Board"
+          >
+            {workspace.boards.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+          </select>
+          <button className="btn icon-btn" onClick={openBoardMenu} title="Board actions" aria-haspopup="menu">⋯</button>
+          <TeamStatus state={teamSync.state} />
+        </div>
         <div className="search-container">
             <input
                 type="text"
-                placeholder="Search title, url, group, type..."
+                placeholder='Search, or filter with type:excel group:"Work Tools"'
                 className="search-input"
                 value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
+                onChange={(e) => { changeSearch(e.target.value); setIsSearchOpen(true); }}
+                onKeyDown={handleSearchKeyDown}
+                onFocus={() => setIsSearchOpen(searchQuery.trim() !== '')}
+                onBlur={() => setIsSearchOpen(false)}
+                role="combobox"
+                aria-autocomplete="list"
+                aria-expanded={isSearchOpen && searchList.length > 0}
+                aria-controls="search-results"
+                aria-activedescendant={currentHitId ? `search-result-${currentHitId}` : undefined}
+                aria-label="Search favorites. Arrow keys move through the results, Enter opens one."
             />
+            {searchResults && (
+                <span className="search-count">
+                  {searchCursor >= 0 ? `${searchCursor + 1}/${searchHits.length}` : `${searchHits.length} found`}
+                </span>
+            )}
             {searchQuery && (
-                <button className="search-clear-btn" onClick={() => setSearchQuery('')}>&times;</button>
+                <>
+                  <button
+                    className="search-save-btn"
+                    onClick={handleSaveSearch}
+                    disabled={isSearchSaved}
+                    title={isSearchSaved ? 'Search is saved' : 'Save this search'}
+                  >
+                    {isSearchSaved ? '★' : '☆'}
+                  </button>
+                  <button className="search-clear-btn" onClick={() => changeSearch('')}>&times;</button>
+                </>
+            )}
+            {isSearchOpen && searchList.length > 0 && (
+                // Keeps focus in the input while a result is clicked.
+                <ul id="search-results" className="search-results" role="listbox" onMouseDown={(e) => e.preventDefault()}>
+                  {searchList.map((hit, index) => (
+                    <li
+                      key={hit.favorite.id}
+                      id={`search-result-${hit.favorite.id}`}
+                      className={`search-result ${index === searchCursor ? 'is-active' : ''}`}
+                      role="option"
+                      aria-selected={index === searchCursor}
+                      onMouseEnter={() => setSearchCursor(index)}
+                      onClick={() => { setIsSearchOpen(false); openFavorite(hit.favorite); }}
+                    >
+                      <span className="search-result-name">{hit.favorite.name}</span>
+                      <span className="search-result-meta">{groupPath(groups, hit.groupId)} · {typeDescription(hit.favorite.type)}</span>
+                    </li>
+                  ))}
+                </ul>
+            )}
+            {savedSearches.length > 0 && (
+                <div className="saved-searches" aria-label="Saved searches">
+                  {savedSearches.map(query => (
+                    <span key={query} className={`saved-search ${query === searchQuery.trim() ? 'is-active' : ''}`}>
+                      <button className="saved-search-apply" onClick={() => changeSearch(query)}>{query}</button>
+                      <button className="saved-search-remove" onClick={() => handleRemoveSavedSearch(query)} aria-label={`Remove saved search ${query}`}>&times;</button>
+                    </span>
+                  ))}
+                </div>
             )}
         </div>
         <div className="header-actions">
-           <input type="file" ref={importFileRef} style={{ display: 'none' }} onChange={handleImport} accept=".json" />
-           <button className="btn icon-btn" onClick={handleImportClick} title="Import JSON">📥</button>
+           <input type="file" ref={importFileRef} style={{ display: 'none' }} onChange={handleImport} accept=".json,.html,.htm" />
+           <button className="btn icon-btn" onClick={handleUndo} disabled={!undoLabel} title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Nothing to undo'}>↶</button>
+           <button className="btn icon-btn" onClick={handleRedo} disabled={!redoLabel} title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}>↷</button>
+           <button className="btn icon-btn" onClick={handleImportClick} title="Import JSON or bookmarks HTML">📥</button>
            <button className="btn icon-btn" onClick={handleExport} title="Export JSON">📤</button>
+           <button className="btn icon-btn" onClick={handleExportBookmarks} title="Export as browser bookmarks">🔖</button>
+           <button className="btn icon-btn" onClick={handleExportImageMenu} title="Export image or printable list">🖼</button>
+           <button className="btn icon-btn" onClick={handleFitAll} title="Fit all groups on screen">⛶</button>
+           <button className="btn icon-btn" onClick={handleAutoArrange} title="Auto-arrange groups" disabled={groups.length === 0}>▦</button>
+           <button
+             className={`btn icon-btn ${isGridEnabled ? 'is-active' : ''}`}
+             onClick={toggleGrid}
+             aria-pressed={isGridEnabled}
+             title={isGridEnabled ? 'Snap to grid is on (hold Alt while dragging to place freely)' : 'Snap to grid'}
+           >#</button>
+           <button
+             className={`btn icon-btn ${usageView.highlight || usageView.sun ? 'is-active' : ''}`}
+             onClick={openUsageMenu}
+             aria-haspopup="menu"
+             title="Usage"
+           >📊</button>
            <button className="btn" onClick={handleAddGroup}>Add Group</button>
+           <StorageIndicator status={storageStatus} />
         </div>
       </header>
+      <StorageAlert status={storageStatus} onExport={exportAllBoards} />
+      <SyncConflictNotice conflicts={syncConflicts} onUseTheirs={handleUseTheirs} onDismiss={() => setSyncConflicts([])} />
+      <UnusableLinksNotice
+        favorites={unusableFavorites.filter(fav => !dismissedUnusableIds.includes(fav.id))}
+        onEdit={openEditModal}
+        onDismiss={() => setDismissedUnusableIds(unusableFavorites.map(fav => fav.id))}
+      />
 
-      <div className="world" style={{ transform: `translate(${view.pan.x}px, ${view.pan.y}px) scale(${view.zoom})` }}>
-        <svg className="connections-svg" style={{ transform: `scale(${1/view.zoom})` }}>
+      <p id="canvas-instructions" className="sr-only">
+        Tab moves between groups. Arrow keys move around a group's orbit and Escape returns to its sun. Enter opens a favorite
+        or expands a group. Space picks up a favorite; move to a group or favorite and press Space again to drop it.
+        Shift and Space adds a group or favorite to the selection, Delete removes everything selected, and Escape clears it.
+        Plus and minus zoom, Shift with the arrow keys pans.
+      </p>
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+      <div
+        ref={worldRef}
+        className="world"
+        style={{ transform: worldTransform(liveView.current) }}
+        role="tree"
+        aria-label="Favorites canvas"
+        aria-multiselectable="true"
+        aria-describedby="canvas-instructions"
+        onKeyDown={handleCanvasKeyDown}
+        onFocus={handleCanvasFocus}
+      >
+        <svg className="connections-svg" aria-hidden="true" style={{ transform: `scale(${1/view.zoom})` }}>
             <g style={{ transform: `scale(${view.zoom})` }}>
-              {groups.map(group => 
+              {placedGroups.map(sub => {
+                const parent = sub.depth > 0 && !sub.hidden ? placedGroups.find(g => g.id === sub.parentId) : undefined;
+                if (!parent || !overlaps(cullBounds, boundsOf([parent, sub])!)) return null;
+                const isDimmed = searchResults && !searchResults.matchingGroupIds.has(sub.id);
+                return <line key={`sub-${sub.id}`} x1={parent.x} y1={parent.y} x2={sub.x} y2={sub.y} className={`subsystem-line ${isDimmed ? 'is-dimmed' : ''}`} data-group-id={sub.id} />
+              })}
+              {!isSimplified && orbitingGroups.filter(g => orbitsInView.has(g.id)).map(group =>
                 group.favorites.map(fav => {
-                  if (travelingItem?.item.id === fav.id) return null;
+                  if (travelingIds.has(fav.id)) return null;
                   const pos = planetPositions[fav.id];
                   if (!pos) return null;
                   const isDimmed = searchResults && !searchResults.matchingFavIds.has(fav.id);
-                  return <line key={`${group.id}-${fav.id}`} x1={group.x} y1={group.y} x2={pos.x} y2={pos.y} className={`connection-line ${isDimmed ? 'is-dimmed' : ''}`} />
+                  return <line key={`${group.id}-${fav.id}`} x1={group.x} y1={group.y} x2={pos.x} y2={pos.y} className={`connection-line ${isDimmed ? 'is-dimmed' : ''}`} data-group-id={group.id} />
                 })
               )}
+              {usageSun?.favorites.map(fav => (
+                <line key={`usage-${fav.id}`} x1={usageSun.x} y1={usageSun.y} x2={usageSun.positions[fav.id].x} y2={usageSun.positions[fav.id].y} className="connection-line usage-sun-line" />
+              ))}
+              {guides.map(guide => (guide.axis === 'x'
+                ? <line key="guide-x" x1={guide.value} y1={guide.from} x2={guide.value} y2={guide.to} className="alignment-guide" />
+                : <line key="guide-y" x1={guide.from} y1={guide.value} x2={guide.to} y2={guide.value} className="alignment-guide" />
+              ))}
             </g>
         </svg>
 
-        {groups.map((group, groupIdx) => {
-            const isGroupDimmed = searchResults && !searchResults.matchingGroupIds.has(group.id);
+        {placedGroups.map((placed, groupIdx) => {
+            if (placed.hidden) return null;
+            const group = groups[groupIdx];
+            const isGroupDimmed = (searchResults && !searchResults.matchingGroupIds.has(group.id))
+              || (tagHighlight && !tagHighlight.taggedGroupIds.has(group.id));
+            const siblings = navSuns.filter(g => g.depth === placed.depth && g.parentId === placed.parentId);
+            const showSun = isRendered(groupKey(group.id), placed);
+            const hiddenCount = group.collapsed ? [group.id, ...descendantIds(groups, group.id)].reduce((n, id) => n + groups.find(g => g.id === id)!.favorites.length, 0) : 0;
             return (
           <React.Fragment key={group.id}>
-            <div
-              className={`group ${isGroupDimmed ? 'is-dimmed' : ''}`}
-              style={{ left: group.x, top: group.y }}
-              onDragEnter={(e) => handleDragEnterGroup(e, group.id)}
-              onDragLeave={handleDragLeaveGroup}
-              onDragOver={(e) => e.preventDefault()}
-              onDrop={handleDrop}
-            >
-              <div className="group-sun">
-                <h2 onMouseDown={(e) => handleGroupMouseDown(e, groupIdx)}>{group.name}</h2>
-                <button className="btn-add-fav" onClick={() => openAddModal(group.id)}>+</button>
+            {showSun && (
+              <div
+                className={`group ${placed.depth > 0 ? 'is-subsystem' : ''} ${group.collapsed ? 'is-collapsed' : ''} ${isGroupDimmed ? 'is-dimmed' : ''} ${dropTarget?.groupId === group.id ? 'drag-over-group' : ''} ${selectedGroupIds.has(group.id) ? 'is-selected' : ''}`}
+                // A custom color replaces the accent glow for everything drawn around the sun.
+                style={{ left: placed.x, top: placed.y, ...(group.color ? { '--accent-glow': group.color } : {}) } as React.CSSProperties}
+                data-group-id={group.id}
+              >
+                <div
+                  className="group-sun"
+                  role="treeitem"
+                  tabIndex={activeKey === groupKey(group.id) ? 0 : -1}
+                  data-nav-key={groupKey(group.id)}
+                  aria-label={describeGroup(groups, group)}
+                  aria-level={placed.depth + 1}
+                  aria-setsize={siblings.length}
+                  aria-posinset={siblings.findIndex(g => g.id === group.id) + 1}
+                  aria-expanded={!group.collapsed}
+                  aria-selected={selectedGroupIds.has(group.id)}
+                  onContextMenu={(e) => { e.preventDefault(); openGroupMenu(e.clientX, e.clientY, group); }}
+                  onKeyDown={(e) => {
+                    if (isMenuKey(e)) {
+                      e.preventDefault();
+                      const { x, y } = anchorOf(e.currentTarget);
+                      openGroupMenu(x, y, group);
+                    }
+                  }}
+                >
+                  <h2
+                    onPointerDown={(e) => handleGroupPointerDown(e, group)}
+                    onClick={(e) => e.shiftKey && changeSelection(toggleGroup(selection, group.id))}
+                  >
+                    {group.icon && <span className="group-icon" aria-hidden="true">{group.icon}</span>}
+                    {group.name}
+                  </h2>
+                  {group.collapsed && (
+                    <button className="collapsed-count" tabIndex={-1} onClick={() => handleToggleCollapsed(group)} title="Expand">
+                      {hiddenCount} favorite{hiddenCount === 1 ? '' : 's'}
+                    </button>
+                  )}
+                  <div className="group-sun-actions">
+                    {!group.collapsed && <button className="btn-add-fav" tabIndex={-1} onClick={() => openAddModal(group.id)} aria-label={`Add favorite to ${group.name}`}>+</button>}
+                    <button
+                      className="btn-group-menu"
+                      tabIndex={-1}
+                      aria-haspopup="menu"
+                      aria-label={`${group.name} actions`}
+                      onClick={(e) => { const { x, y } = anchorOf(e.currentTarget); openGroupMenu(x, y, group); }}
+                    >⋯</button>
+                  </div>
+                </div>
               </div>
-            </div>
-            {group.favorites.map((fav) => {
+            )}
+            {!group.collapsed && group.favorites.map((fav, favIdx) => {
               const pos = planetPositions[fav.id];
-              if (!pos) return null;
+              if (!pos || !isRendered(favoriteKey(fav.id), pos)) return null;
               
-              const isTravelingOriginal = travelingItem?.item.id === fav.id;
-              const isSpawning = newlyAddedFavId === fav.id;
+              const isTravelingOriginal = travelingIds.has(fav.id);
+              const isSelected = selectedFavIds.has(fav.id);
+              const isSpawning = newlyAddedFavIds.includes(fav.id);
               const isClicked = clickedFavoriteId === fav.id;
               const isMatch = !!searchResults?.matchingFavIds.has(fav.id);
-              const isDimmed = searchResults && !isMatch;
+              const isTagged = !!tagHighlight?.taggedFavIds.has(fav.id);
+              const isDimmed = (searchResults && !isMatch) || (tagHighlight && !isTagged);
+              const isCarried = carrying?.item.id === fav.id;
+              const level = levels.get(fav.id);
+              const isUnusable = unusableFavIds.has(fav.id);
 
               return (
               <a
                 key={fav.id}
-                href={fav.url}
+                href={isUnusable ? undefined : fav.url}
                 className={`
                   favorite-card 
                   favorite-card-${fav.type} 
@@ -465,41 +2090,191 @@ const App: React.FC = () => {
                   ${isTravelingOriginal ? 'is-traveling-original' : ''}
                   ${isSpawning ? 'is-spawning' : ''}
                   ${isDimmed ? 'is-dimmed' : ''}
-                  ${isMatch ? 'is-highlighted' : ''}
+                  ${isMatch || isTagged ? 'is-highlighted' : ''}
+                  ${isCarried ? 'is-carried' : ''}
+                  ${isSelected ? 'is-selected' : ''}
+                  ${favoriteDrag?.moving.some(m => m.item.id === fav.id) ? 'dragging' : ''}
+                  ${currentHitId === fav.id ? 'is-current-result' : ''}
+                  ${level ? `usage-level-${level}` : ''}
+                  ${isSimplified ? 'is-simplified' : ''}
+                  ${isUnusable ? 'has-unusable-link' : ''}
                 `}
                 style={{ left: pos.x, top: pos.y }}
+                data-group-id={group.id}
+                title={isUnusable ? "This link can't be opened. Click to fix it." : isSimplified ? fav.name : fav.note || undefined}
+                role="treeitem"
+                tabIndex={activeKey === favoriteKey(fav.id) ? 0 : -1}
+                data-nav-key={favoriteKey(fav.id)}
+                aria-label={describeFavorite(fav)}
+                aria-level={placed.depth + 2}
+                aria-setsize={group.favorites.length}
+                aria-posinset={favIdx + 1}
+                aria-selected={isSelected}
                 onClick={(e) => handleFavoriteClick(e, fav)}
-                draggable
-                onDragStart={(e) => handleDragStart(e, group, fav)}
-                onDragEnd={handleDragEnd}
+                onContextMenu={(e) => { e.preventDefault(); openFavoriteMenu(e.clientX, e.clientY, placed, fav); }}
+                onKeyDown={(e) => {
+                  if (isMenuKey(e)) {
+                    e.preventDefault();
+                    const { x, y } = anchorOf(e.currentTarget);
+                    openFavoriteMenu(x, y, placed, fav);
+                  }
+                }}
+                draggable={false}
+                onPointerDown={(e) => handleFavoritePointerDown(e, group, fav)}
               >
-                <div className="favorite-content">
-                    {fav.imageUrl ? (
-                        <img src={fav.imageUrl} alt={fav.name} className="thumbnail" />
-                    ) : (
-                        <div className="thumbnail text-thumbnail">
-                            <span>{fav.displayText}</span>
-                        </div>
-                    )}
-                    <p>{fav.name}</p>
-                    <button className="btn-edit-fav" onClick={(e) => { e.preventDefault(); e.stopPropagation(); openEditModal(fav); }}>✏️</button>
-                </div>
+                {!isSimplified && (
+                  <div className="favorite-content">
+                      <Thumbnail favorite={fav} images={workspace.images} />
+                      <p>{fav.name}</p>
+                      {fav.pinnedAngle !== undefined && <span className="pin-badge" title="Pinned">📌</span>}
+                      {fav.note && <span className="note-badge" aria-hidden="true">📝</span>}
+                      <button className="btn-edit-fav" tabIndex={-1} aria-label={`Edit ${fav.name}`} onClick={(e) => { e.preventDefault(); e.stopPropagation(); openEditModal(fav); }}>✏️</button>
+                  </div>
+                )}
               </a>
             )})}
           </React.Fragment>
         )})}
-        {travelingItem && <TravelingFavorite {...travelingItem} onAnimationEnd={handleTravelEnd} />}
+        {usageSun && (
+          // A shortcut for pointer users; keyboard and screen reader users reach the same favorites
+          // through search, so it stays out of the tree.
+          <div aria-hidden="true">
+            <div className="group usage-sun" style={{ left: usageSun.x, top: usageSun.y }}>
+              <div className="group-sun">
+                <h2>{usageView.sun === 'recent' ? 'Recent' : 'Frequent'}</h2>
+                {usageSun.favorites.length === 0 && <span className="usage-sun-empty">Nothing opened yet</span>}
+                <div className="group-sun-actions">
+                  <button
+                    className="btn-group-menu"
+                    tabIndex={-1}
+                    title={usageView.sun === 'recent' ? 'Show most used' : 'Show most recent'}
+                    onClick={() => setUsageView(prev => ({ ...prev, sun: prev.sun === 'recent' ? 'frequent' : 'recent' }))}
+                  >⇄</button>
+                  <button className="btn-group-menu" tabIndex={-1} title="Hide" onClick={() => setUsageView(prev => ({ ...prev, sun: null }))}>&times;</button>
+                </div>
+              </div>
+            </div>
+            {usageSun.favorites.map(fav => {
+              const pos = usageSun.positions[fav.id];
+              return (
+                <a
+                  key={fav.id}
+                  href={unusableFavIds.has(fav.id) ? undefined : fav.url}
+                  className={`favorite-card favorite-card-${fav.type} usage-sun-planet ${clickedFavoriteId === fav.id ? 'clicked-effect' : ''}`}
+                  style={{ left: pos.x, top: pos.y }}
+                  title={describeLastOpened(usage[fav.id])}
+                  tabIndex={-1}
+                  draggable={false}
+                  onClick={(e) => { e.preventDefault(); openFavorite(fav); }}
+                >
+                  <div className="favorite-content">
+                    <Thumbnail favorite={fav} images={workspace.images} alt="" />
+                    <p>{fav.name}</p>
+                  </div>
+                </a>
+              );
+            })}
+          </div>
+        )}
+        {dropTarget && <div className="drop-slot-marker" style={{ left: dropTarget.position.x, top: dropTarget.position.y }} />}
+        {carryMarker && <div className="drop-slot-marker" style={{ left: carryMarker.x, top: carryMarker.y }} />}
+        {favoriteDrag && (
+          <div className={`favorite-card favorite-card-${favoriteDrag.item.type} drag-ghost`} style={{ left: favoriteDrag.point.x, top: favoriteDrag.point.y }}>
+            <div className="favorite-content">
+              <Thumbnail favorite={favoriteDrag.item} images={workspace.images} alt="" />
+              <p>{favoriteDrag.item.name}</p>
+              {favoriteDrag.moving.length > 1 && <span className="drag-count-badge">{favoriteDrag.moving.length}</span>}
+            </div>
+          </div>
+        )}
+        {travel?.items.map(leg => (
+          <TravelingFavorite key={leg.item.id} {...leg} images={workspace.images} onAnimationEnd={leg === leadLeg ? handleTravelEnd : undefined} />
+        ))}
+        {teamSync.state?.peers.filter(p => p.cursor).map(peer => (
+          <div
+            key={peer.clientId}
+            className="peer-cursor"
+            aria-hidden="true"
+            style={{ left: peer.cursor.x, top: peer.cursor.y, transform: `scale(${1 / view.zoom})`, '--peer-color': peer.color } as React.CSSProperties}
+          >
+            <span>{peer.name}</span>
+          </div>
+        ))}
       </div>
       
-      {isModalOpen && <AddFavoriteModal onClose={closeModal} onSave={handleSaveFavorite} favoriteToEdit={editingFavorite} />}
-      {iframeUrl && <IframeModal url={iframeUrl} onClose={() => setIframeUrl(null)} />}
+      <Minimap groups={visibleGroups} view={view} size={viewportSize} onCenter={handleMinimapCenter} />
+      <TagLegend tags={tagCounts} activeTag={activeTag} onToggle={handleToggleTag} />
+      <SelectionBar
+        selection={selection}
+        onMove={openMoveSelectionMenu}
+        onTag={handleTagSelection}
+        onExport={handleExportSelection}
+        onDelete={handleDeleteSelection}
+        onClear={() => changeSelection(EMPTY_SELECTION)}
+      />
+      {marquee && (
+        <div
+          className="marquee"
+          style={{
+            left: Math.min(marquee.from.x, marquee.to.x),
+            top: Math.min(marquee.from.y, marquee.to.y),
+            width: Math.abs(marquee.to.x - marquee.from.x),
+            height: Math.abs(marquee.to.y - marquee.from.y),
+          }}
+        />
+      )}
+
+      {isModalOpen && <AddFavoriteModal onClose={closeModal} onSave={handleSaveFavorite} favoriteToEdit={editingFavorite} images={workspace.images} />}
+      {contextMenu && <ContextMenu {...contextMenu} onClose={() => setContextMenu(null)} />}
+      {importedBoard && (
+        <MergeImportModal
+          currentGroups={groups}
+          importedGroups={importedBoard.groups}
+          onMerge={(resolutions) => handleMergeImport(importedBoard.groups, resolutions)}
+          onReplace={() => commitLayout('Import layout', () => importedBoard.groups)}
+          onAddAsBoard={() => handleImportAsBoard([importedBoard])}
+          onClose={() => setImportedBoard(null)}
+        />
+      )}
+      {bookmarkFolders && (
+        <BookmarkImportModal
+          folders={bookmarkFolders}
+          currentGroups={groups}
+          onImport={handleBookmarkImport}
+          onClose={() => setBookmarkFolders(null)}
+        />
+      )}
+      {editingGroup && (
+        <GroupEditorModal
+          group={editingGroup}
+          onSave={(changes) => handleEditGroup(editingGroup.id, changes)}
+          onClose={() => setEditingGroupId(null)}
+        />
+      )}
+      {isStaleReportOpen && (
+        <StaleFavoritesModal
+          groups={groups}
+          usage={usage}
+          onArchive={handleArchive}
+          onDelete={handleDeleteStale}
+          onClose={() => setIsStaleReportOpen(false)}
+        />
+      )}
+      {deletingGroup && (
+        <DeleteGroupModal
+          group={deletingGroup}
+          otherGroups={groups.filter(g => g.id !== deletingGroup.id)}
+          onConfirm={(moveToGroupId) => confirmDeleteGroup(deletingGroup.id, moveToGroupId)}
+          onClose={() => setDeletingGroupId(null)}
+        />
+      )}
     </div>
   );
 };
 
 // --- HELPER & MODAL COMPONENTS ---
 
-const TravelingFavorite: React.FC<TravelingItem & { onAnimationEnd: () => void; }> = ({ item, startPos, endPos, onAnimationEnd }) => {
+const TravelingFavorite: React.FC<TravelingItem & { images: ImageStore; onAnimationEnd?: () => void; }> = ({ item, startPos, endPos, images, onAnimationEnd }) => {
   const [style, setStyle] = useState<React.CSSProperties>({
     left: startPos.x,
     top: startPos.y,
@@ -520,7 +2295,7 @@ const TravelingFavorite: React.FC<TravelingItem & { onAnimationEnd: () => void;
   const handleTransitionEnd = (e: React.TransitionEvent) => {
     // onTransitionEnd can fire for multiple properties. We only want to trigger the logic once.
     if (e.propertyName === 'left') {
-      onAnimationEnd();
+      onAnimationEnd?.();
     }
   };
 
@@ -531,13 +2306,7 @@ const TravelingFavorite: React.FC<TravelingItem & { onAnimationEnd: () => void;
       onTransitionEnd={handleTransitionEnd}
     >
       <div className="favorite-content">
-        {item.imageUrl ? (
-          <img src={item.imageUrl} alt={item.name} className="thumbnail" />
-        ) : (
-          <div className="thumbnail text-thumbnail">
-            <span>{item.displayText}</span>
-          </div>
-        )}
+        <Thumbnail favorite={item} images={images} />
         <p>{item.name}</p>
       </div>
     </div>
@@ -548,14 +2317,19 @@ const AddFavoriteModal: React.FC<{
   onClose: () => void; 
   onSave: (favorite: Favorite | Omit<Favorite, 'id'>) => void;
   favoriteToEdit: Favorite | null;
-}> = ({ onClose, onSave, favoriteToEdit }) => {
+  images: ImageStore;
+}> = ({ onClose, onSave, favoriteToEdit, images }) => {
   const [name, setName] = useState('');
   const [url, setUrl] = useState('');
   const [type, setType] = useState<Favorite['type']>('web');
-  const [inputType, setInputType] = useState<'image' | 'text'>('image');
+  const [inputType, setInputType] = useState<ThumbnailSource>('auto');
   const [image, setImage] = useState<string | null>(null);
   const [displayText, setDisplayText] = useState('');
   const [openBehavior, setOpenBehavior] = useState<'modal' | 'newTab'>('newTab');
+  const [isProcessingImage, setIsProcessingImage] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState('');
+  const [tagsText, setTagsText] = useState('');
+  const [note, setNote] = useState('');
   const [isOpen, setIsOpen] = useState(false);
 
   useEffect(() => {
@@ -569,17 +2343,14 @@ const AddFavoriteModal: React.FC<{
       setUrl(favoriteToEdit.url);
       setType(favoriteToEdit.type);
       setOpenBehavior(favoriteToEdit.openBehavior || 'newTab');
-      if (favoriteToEdit.imageUrl) {
-        setInputType('image');
-        setImage(favoriteToEdit.imageUrl);
-        setDisplayText('');
-      } else {
-        setInputType('text');
-        setDisplayText(favoriteToEdit.displayText || '');
-        setImage(null);
-      }
+      setTagsText(formatTags(favoriteToEdit.tags));
+      setNote(favoriteToEdit.note || '');
+      setImage(favoriteToEdit.imageUrl || null);
+      setDisplayText(favoriteToEdit.displayText || '');
+      setInputType(favoriteToEdit.imageUrl ? 'image' : favoriteToEdit.displayText ? 'text' : favoriteToEdit.favicon ? 'favicon' : 'auto');
     } else {
-      setName(''); setUrl(''); setType('web'); setImage(null); setOpenBehavior('newTab'); setInputType('image'); setDisplayText('');
+      setName(''); setUrl(''); setType('web'); setImage(null); setOpenBehavior('newTab'); setInputType('auto'); setDisplayText('');
+      setTagsText(''); setNote('');
     }
   }, [favoriteToEdit]);
 
@@ -588,28 +2359,62 @@ const AddFavoriteModal: React.FC<{
     setTimeout(onClose, 400);
   };
 
-  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const reader = new FileReader();
-      reader.onload = (event) => setImage(event.target?.result as string);
-      reader.readAsDataURL(e.target.files[0]);
+  // Uploads are shrunk to thumbnail size right away, so only the small version is ever stored.
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setIsProcessingImage(true);
+    try {
+      setImage(await processImage(file));
+    } catch (error) {
+      alert((error as Error).message);
+    } finally {
+      setIsProcessingImage(false);
     }
   };
 
+  const handler = getLinkHandler(type);
+
+  // An image or text choice left empty falls back to the monogram rather than blocking the save.
+  const contentData: Pick<Favorite, 'imageUrl' | 'displayText' | 'favicon'> = {
+    imageUrl: inputType === 'image' && image ? image : undefined,
+    displayText: inputType === 'text' && displayText.trim() ? displayText.trim() : undefined,
+    favicon: inputType === 'favicon' || undefined,
+  };
+
+  // The site icon is looked up once typing pauses, not for every partial hostname.
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      const normalized = handler.normalize(url);
+      setPreviewUrl(normalized.ok ? normalized.url : '');
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [url, handler]);
+
+  const preview: Favorite = { id: favoriteToEdit?.id ?? 'preview', name, url: previewUrl, type, ...contentData };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const isTextValid = inputType === 'text' && displayText.trim();
-    const isImageValid = inputType === 'image' && image;
-    if (name && url && (isTextValid || isImageValid)) {
-      const commonData = { name, url, type, openBehavior: type === 'web' ? openBehavior : undefined };
-      const contentData = inputType === 'text' ? { displayText, imageUrl: undefined } : { imageUrl: image!, displayText: undefined };
+    if (name && url) {
+      const normalized = handler.normalize(url);
+      if (!normalized.ok) {
+        alert(normalized.error);
+        return;
+      }
+      const tags = parseTags(tagsText);
+      const commonData = {
+        name, url: normalized.url, type,
+        openBehavior: handler.embeddable ? openBehavior : undefined,
+        tags: tags.length ? tags : undefined,
+        note: note.trim() || undefined,
+      };
       if (favoriteToEdit) {
         onSave({ ...commonData, ...contentData, id: favoriteToEdit.id });
       } else {
         onSave({ ...commonData, ...contentData });
       }
     } else {
-      alert("Please fill all fields and provide an image or text.");
+      alert("Please fill in a name and a URL.");
     }
   };
 
@@ -619,31 +2424,39 @@ const AddFavoriteModal: React.FC<{
         <h3>{favoriteToEdit ? 'Edit Favorite' : 'Add New Favorite'}</h3>
         <form className="modal-form" onSubmit={handleSubmit}>
           <div className="form-group"><label>Name</label><input type="text" value={name} onChange={(e) => setName(e.target.value)} required /></div>
-          <div className="form-group"><label>URL</label><input type="url" value={url} onChange={(e) => setUrl(e.target.value)} required /></div>
           <div className="form-group"><label>Type</label><select value={type} onChange={(e) => setType(e.target.value as any)}>
-              <option value="web">Web Page</option><option value="teams">Teams Contact</option><option value="excel">Excel</option>
-              <option value="powerpoint">PowerPoint</option><option value="teamsGroup">Teams Group</option>
+              {linkHandlers().map(h => <option key={h.type} value={h.type}>{h.label}</option>)}
           </select></div>
-          {type === 'web' && (
+          <div className="form-group"><label>{handler.urlLabel}</label><input type="text" value={url} onChange={(e) => setUrl(e.target.value)} placeholder={handler.urlPlaceholder} required /></div>
+          {handler.embeddable && (
              <div className="form-group radio-group"><label>Open in:</label>
                 <label><input type="radio" value="newTab" checked={openBehavior === 'newTab'} onChange={(e) => setOpenBehavior(e.target.value as 'newTab')} /> New Tab</label>
-                <label><input type="radio" value="modal" checked={openBehavior === 'modal'} onChange={(e) => setOpenBehavior(e.target.value as 'modal')} /> Modal</label>
+                <label><input type="radio" value="modal" checked={openBehavior === 'modal'} onChange={(e) => setOpenBehavior(e.target.value as 'modal')} /> Workspace Panel</label>
             </div>
           )}
           <div className="form-group radio-group"><label>Display:</label>
+            <label><input type="radio" name="inputType" value="auto" checked={inputType === 'auto'} onChange={() => setInputType('auto')} /> Initials</label>
+            <label><input type="radio" name="inputType" value="favicon" checked={inputType === 'favicon'} onChange={() => setInputType('favicon')} /> Site Icon</label>
             <label><input type="radio" name="inputType" value="image" checked={inputType === 'image'} onChange={() => setInputType('image')} /> Image</label>
             <label><input type="radio" name="inputType" value="text" checked={inputType === 'text'} onChange={() => setInputType('text')} /> Text</label>
           </div>
-          {inputType === 'image' ? (
+          {inputType === 'image' && (
             <div className="form-group"><label>Image Upload</label><input type="file" accept="image/*" onChange={handleImageChange} />
-             {image && <img src={image} alt="Preview" style={{maxWidth: '100px', alignSelf: 'center', margin: '10px 0'}}/>}
+             {isProcessingImage && <p className="modal-text">Resizing image…</p>}
             </div>
-          ) : (
-            <div className="form-group"><label>Display Text (1-4 Chars)</label><input type="text" value={displayText} onChange={(e) => setDisplayText(e.target.value)} maxLength={4} required /></div>
           )}
+          {inputType === 'text' && (
+            <div className="form-group"><label>Display Text (1-4 Chars)</label><input type="text" value={displayText} onChange={(e) => setDisplayText(e.target.value)} maxLength={4} /></div>
+          )}
+          {inputType === 'favicon' && <p className="modal-text">The site's icon is fetched once and kept for offline use. Initials are shown if it can't be found.</p>}
+          <div className={`thumbnail-preview favorite-card-${type}`} aria-label="Preview">
+            <Thumbnail favorite={preview} images={images} alt="Preview" />
+          </div>
+          <div className="form-group"><label>Tags</label><input type="text" value={tagsText} onChange={(e) => setTagsText(e.target.value)} placeholder="Comma separated, e.g. daily, finance" /></div>
+          <div className="form-group"><label>Note</label><textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} /></div>
           <div className="modal-actions">
             <button type="button" className="btn btn-secondary" onClick={handleClose}>Cancel</button>
-            <button type="submit" className="btn">{favoriteToEdit ? 'Save Changes' : 'Add'}</button>
+            <button type="submit" className="btn" disabled={isProcessingImage}>{favoriteToEdit ? 'Save Changes' : 'Add'}</button>
           </div>
         </form>
       </div>
@@ -651,31 +2464,95 @@ const AddFavoriteModal: React.FC<{
   );
 };
 
-const IframeModal: React.FC<{url: string, onClose: () => void}> = ({ url, onClose }) => {
-    const [isOpen, setIsOpen] = useState(false);
+// --- ROOT ---
+// Owns the workspace and saves it; each board gets a fresh App so its history and view start clean.
+const Boards: React.FC<{ initialWorkspace: Workspace }> = ({ initialWorkspace }) => {
+  // Images nothing refers to any more (not even undo history) are dropped once per load.
+  const [workspace, setWorkspace] = useState<Workspace>(() => ({
+    ...initialWorkspace,
+    images: referencedImages(initialWorkspace.boards, initialWorkspace.images, historyImageRefs()),
+  }));
+  const [storageStatus, setStorageStatus] = useState<StorageStatus>(() => ({ ...storageUsage(), error: null }));
+  const [remoteChange, setRemoteChange] = useState<RemoteChange | null>(null);
+  // Lives here rather than in App, so open pages survive switching boards.
+  const [embeds, setEmbeds] = useState<EmbedPanelState>(loadEmbedPanel);
+  const board = activeBoard(workspace);
+  const latestWorkspace = useRef(workspace);
+  latestWorkspace.current = workspace;
+  // What storage held when this tab last wrote or read it, i.e. what both tabs last agreed on.
+  const syncBase = useRef(initialWorkspace);
+  // A merge that adds nothing to what another tab saved isn't written back; otherwise two open
+  // tabs would keep answering each other's saves.
+  const adopted = useRef<Workspace | null>(null);
 
-    useEffect(() => {
-      const timer = setTimeout(() => setIsOpen(true), 10);
-      return () => clearTimeout(timer);
-    }, []);
+  useEffect(() => {
+    if (workspace === adopted.current) return;
+    const result = saveWorkspace(workspace);
+    if (result.ok) syncBase.current = workspace;
+    setStorageStatus({ ...storageUsage(), error: result.ok ? null : result.quotaExceeded ? 'quota' : 'failed' });
+  }, [workspace]);
 
-    const handleClose = () => {
-        setIsOpen(false);
-        setTimeout(onClose, 400); // Wait for closing animation
-    };
+  useEffect(() => onWorkspaceSavedElsewhere(theirs => {
+    const base = syncBase.current;
+    const merged = mergeWorkspaces(base, latestWorkspace.current, theirs);
+    syncBase.current = theirs;
+    if (sameSharedContent(merged, theirs)) adopted.current = merged;
+    latestWorkspace.current = merged;
+    setWorkspace(merged);
+    // The open board's groups live in App's history, so App merges those itself.
+    const id = activeBoard(merged).id;
+    const [baseGroups, theirGroups] = [base, theirs].map(ws => ws.boards.find(b => b.id === id)?.groups);
+    if (baseGroups && theirGroups && JSON.stringify(baseGroups) !== JSON.stringify(theirGroups)) {
+      setRemoteChange({ boardId: id, base: baseGroups, theirs: theirGroups });
+    }
+  }), []);
 
-    return (
-        <div className={`modal-overlay ${isOpen ? 'open' : ''}`} onClick={handleClose}>
-            <div className="iframe-modal-content" onClick={(e) => e.stopPropagation()}>
-                <button className="btn-close-iframe" onClick={handleClose}>&times;</button>
-                <iframe src={url} title="Embedded Content" allowFullScreen></iframe>
-            </div>
-        </div>
-    );
-}
+  useEffect(() => {
+    saveEmbedPanel(embeds);
+  }, [embeds]);
+
+  const favorites = useMemo(() => workspace.boards.flatMap(b => b.groups.flatMap(g => g.favorites)), [workspace.boards]);
+  useEffect(() => {
+    setEmbeds(prev => syncTabs(prev, favorites));
+  }, [favorites]);
+
+  const handleOpenEmbed = useCallback((favorite: Favorite) => setEmbeds(prev => openTab(prev, favorite)), []);
+
+  return (
+    <div className="app-layout">
+      <div className="canvas-pane">
+        <App
+          key={board.id}
+          board={board}
+          workspace={workspace}
+          storageStatus={storageStatus}
+          remoteChange={remoteChange}
+          onWorkspaceChange={setWorkspace}
+          onOpenEmbed={handleOpenEmbed}
+        />
+      </div>
+      <EmbedPanel state={embeds} onChange={setEmbeds} />
+    </div>
+  );
+};
+
+// Stored data is validated before the canvas mounts, so App never sees a broken layout.
+const Root: React.FC = () => {
+  const [loadResult, setLoadResult] = useState<LoadResult>(loadWorkspace);
+
+  if (!loadResult.ok) {
+    const handleRecover = (data: Workspace) => {
+      saveWorkspace(data);
+      clearHistory();
+      setLoadResult({ ok: true, data });
+    };
+    return <RecoveryScreen errors={loadResult.errors} raw={loadResult.raw} getSampleData={getSampleWorkspace} onRecover={handleRecover} />;
+  }
+  return <Boards initialWorkspace={loadResult.data ?? getSampleWorkspace()} />;
+};
 
 const container = document.getElementById('root');
 if (container) {
   const root = createRoot(container);
-  root.render(<App />);
+  root.render(<Root />);
 }
\ No newline at end of file
@@ -0,0 +1,401 @@
+import { Favorite, Group, OrbitLayoutId } from './types';
+
+// --- CONSTANTS ---
+export const ORBIT_RADIUS = 180;
+// Room for a sun, its orbit and the cards sitting on it.
+export const GROUP_FOOTPRINT = ORBIT_RADIUS * 2 + 120;
+export const DEFAULT_ORBIT_LAYOUT: OrbitLayoutId = 'rings';
+
+const SUN_RADIUS = 100;
+const CARD_RADIUS = 65;
+const PLANET_SPACING = 120;
+const RING_GAP = 130;
+const GROUP_MARGIN = 20;
+// Room left between systems by auto-arrange, wider than the collision margin so rows read clearly.
+const ARRANGE_GAP = 80;
+const DROP_MARGIN = 60;
+const BADGE_RADIUS = 55;
+const MOON_MARGIN = 40;
+// Start sub-suns off the axes so they sit between the planets of a small orbit.
+const MOON_ANGLE_OFFSET = Math.PI / 4;
+export const NEST_RADIUS = SUN_RADIUS;
+export const PIN_SNAP_DEGREES = 15;
+
+// --- DATA TYPES ---
+export interface OrbitSlot {
+  radius: number;
+  angle: number;
+}
+
+export interface PlacedGroup extends Group {
+  depth: number;
+  hidden: boolean;
+}
+
+export interface OrbitLayoutStrategy {
+  label: string;
+  // Slots relative to the sun for `count` planets, in orbit order.
+  arrange: (count: number) => OrbitSlot[];
+}
+
+// --- STRATEGIES ---
+const evenlySpaced = (count: number, radius: number, offset = 0): OrbitSlot[] =>
+  Array.from({ length: count }, (_, i) => ({ radius, angle: offset + (i / count) * 2 * Math.PI }));
+
+export const ORBIT_LAYOUTS: Record<OrbitLayoutId, OrbitLayoutStrategy> = {
+  classic: {
+    label: 'Single orbit',
+    arrange: (count) => evenlySpaced(count, ORBIT_RADIUS),
+  },
+  scaled: {
+    label: 'Growing orbit',
+    arrange: (count) => evenlySpaced(count, Math.max(ORBIT_RADIUS, (count * PLANET_SPACING) / (2 * Math.PI))),
+  },
+  rings: {
+    label: 'Concentric rings',
+    arrange: (count) => {
+      const slots: OrbitSlot[] = [];
+      for (let ring = 0; slots.length < count; ring++) {
+        const radius = ORBIT_RADIUS + ring * RING_GAP;
+        const capacity = Math.max(1, Math.floor((2 * Math.PI * radius) / PLANET_SPACING));
+        const inRing = Math.min(capacity, count - slots.length);
+        // Stagger odd rings so their cards sit between the ones inside them.
+        slots.push(...evenlySpaced(inRing, radius, ring % 2 ? Math.PI / inRing : 0));
+      }
+      return slots;
+    },
+  },
+};
+
+export const isOrbitLayoutId = (value: unknown): value is OrbitLayoutId =>
+  typeof value === 'string' && value in ORBIT_LAYOUTS;
+
+const strategyFor = (group: Group) => ORBIT_LAYOUTS[group.layout ?? DEFAULT_ORBIT_LAYOUT];
+
+// --- PINNING ---
+// Screen angles start at 3 o'clock; pins are stored from 12 o'clock so they read like a clock face.
+const CLOCK_OFFSET = -Math.PI / 2;
+
+export const pinToRadians = (degrees: number) => (degrees * Math.PI) / 180 + CLOCK_OFFSET;
+
+export const radiansToPin = (radians: number, snap = PIN_SNAP_DEGREES) => {
+  const degrees = ((radians - CLOCK_OFFSET) * 180) / Math.PI;
+  const snapped = Math.round(degrees / snap) * snap;
+  return ((snapped % 360) + 360) % 360;
+};
+
+// Pins snap to whole degrees, so anything closer than this is the same angle.
+const SAME_ANGLE = 1e-6;
+
+const angularDistance = (a: number, b: number) => {
+  const d = Math.abs(a - b) % (2 * Math.PI);
+  return d > Math.PI ? 2 * Math.PI - d : d;
+};
+
+// Slots index-aligned with `group.favorites`. Pinned planets claim the nearest slot (preferring
+// the inner ring) and sit exactly at their angle; the rest fill the remaining slots in order.
+// A later pin to an angle that is already held would hide that card, so it is placed like an
+// unpinned planet until one of the two moves.
+export const arrangeGroup = (group: Group): OrbitSlot[] => {
+  const slots = strategyFor(group).arrange(group.favorites.length);
+  if (!group.favorites.some(fav => fav.pinnedAngle !== undefined)) return slots;
+
+  const innerRadius = Math.min(...slots.map(slot => slot.radius));
+  const free = new Set(slots.map((_, i) => i));
+  const result: OrbitSlot[] = new Array(slots.length);
+
+  const held: number[] = [];
+
+  group.favorites.forEach((fav, i) => {
+    if (fav.pinnedAngle === undefined) return;
+    const angle = pinToRadians(fav.pinnedAngle);
+    if (held.some(other => angularDistance(other, angle) < SAME_ANGLE)) return;
+    held.push(angle);
+    let best = -1;
+    let bestScore = Infinity;
+    free.forEach(slotIndex => {
+      const slot = slots[slotIndex];
+      const score = angularDistance(slot.angle, angle) + (slot.radius === innerRadius ? 0 : 2 * Math.PI);
+      if (score < bestScore) {
+        best = slotIndex;
+        bestScore = score;
+      }
+    });
+    free.delete(best);
+    result[i] = { radius: slots[best].radius, angle };
+  });
+
+  const remaining = [...free].sort((a, b) => a - b);
+  group.favorites.forEach((_, i) => {
+    if (!result[i]) result[i] = slots[remaining.shift()!];
+  });
+  return result;
+};
+
+// --- PLANET POSITIONS ---
+const toPoint = (group: Pick<Group, 'x' | 'y'>, slot: OrbitSlot) => ({
+  x: group.x + slot.radius * Math.cos(slot.angle),
+  y: group.y + slot.radius * Math.sin(slot.angle),
+});
+
+export const computePlanetPositions = (groups: Group[]) => {
+  const positions: { [key: string]: { x: number, y: number } } = {};
+  groups.forEach(group => {
+    const slots = arrangeGroup(group);
+    group.favorites.forEach((fav, i) => {
+      positions[fav.id] = toPoint(group, slots[i]);
+    });
+  });
+  return positions;
+};
+
+export const insertFavorite = (favorites: Favorite[], item: Favorite, index: number) => {
+  const others = favorites.filter(f => f.id !== item.id);
+  return [...others.slice(0, index), item, ...others.slice(index)];
+};
+
+// Where `item` lands if it is placed at `index` in the group (it is moved if already there).
+export const insertionPosition = (group: Group, item: Favorite, index: number) => {
+  const favorites = insertFavorite(group.favorites, item, index);
+  return toPoint(group, arrangeGroup({ ...group, favorites })[index]);
+};
+
+// --- DROP TARGETING ---
+// The closest sun whose orbit (plus a little slack) contains the point.
+export const findDropGroup = (groups: Group[], point: { x: number; y: number }) => {
+  let best: Group | null = null;
+  let bestDistance = Infinity;
+  groups.forEach(group => {
+    const distance = Math.hypot(group.x - point.x, group.y - point.y);
+    if (distance <= orbitExtent(group, group.favorites.length + 1) + DROP_MARGIN && distance < bestDistance) {
+      best = group;
+      bestDistance = distance;
+    }
+  });
+  return best as Group | null;
+};
+
+// Tries every insertion point and keeps the one whose slot is closest to the pointer.
+export const findInsertionIndex = (group: Group, item: Favorite, point: { x: number; y: number }) => {
+  const count = group.favorites.filter(f => f.id !== item.id).length;
+  let best = count;
+  let bestDistance = Infinity;
+  for (let index = 0; index <= count; index++) {
+    const pos = insertionPosition(group, item, index);
+    const distance = Math.hypot(pos.x - point.x, pos.y - point.y);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  }
+  return best;
+};
+
+export const angleAround = (group: Pick<Group, 'x' | 'y'>, point: { x: number; y: number }) =>
+  Math.atan2(point.y - group.y, point.x - group.x);
+
+// Distance from the sun's center to the outer edge of its outermost card.
+export const orbitExtent = (group: Group, count = group.favorites.length) => {
+  if (count === 0) return SUN_RADIUS;
+  const outer = Math.max(...strategyFor(group).arrange(count).map(slot => slot.radius));
+  return Math.max(SUN_RADIUS, outer + CARD_RADIUS);
+};
+
+// A collapsed sun is drawn as a badge, so its planets don't count.
+export const visibleOrbitExtent = (group: Group) => orbitExtent(group, group.collapsed ? 0 : group.favorites.length);
+
+// --- SOLAR SYSTEMS ---
+// Measures every system bottom-up: how far it reaches, and how far out its sub-suns orbit.
+const measureSystems = (groups: Group[]) => {
+  const ids = new Set(groups.map(g => g.id));
+  const children = new Map<string, Group[]>();
+  groups.forEach(g => {
+    if (g.parentId && ids.has(g.parentId)) children.set(g.parentId, [...(children.get(g.parentId) ?? []), g]);
+  });
+
+  const extents = new Map<string, number>();
+  const moonRadii = new Map<string, number>();
+  const measure = (group: Group, stack: Set<string>): number => {
+    if (extents.has(group.id)) return extents.get(group.id)!;
+    if (stack.has(group.id)) return SUN_RADIUS;
+    stack.add(group.id);
+    const kids = children.get(group.id) ?? [];
+    let extent = group.collapsed ? BADGE_RADIUS : orbitExtent(group);
+    if (!group.collapsed && kids.length > 0) {
+      const kidExtent = Math.max(...kids.map(kid => measure(kid, stack)));
+      const moonRadius = Math.max(extent + kidExtent + MOON_MARGIN, (kids.length * (2 * kidExtent + MOON_MARGIN)) / (2 * Math.PI));
+      moonRadii.set(group.id, moonRadius);
+      extent = moonRadius + kidExtent;
+    }
+    stack.delete(group.id);
+    extents.set(group.id, extent);
+    return extent;
+  };
+  groups.forEach(g => measure(g, new Set()));
+  return { ids, children, extents, moonRadii };
+};
+
+const isRoot = (ids: Set<string>, group: Group) => !group.parentId || !ids.has(group.parentId);
+
+// Resolves where every sun is drawn. Roots use their stored x/y; sub-suns are spread on a
+// ring around their parent, and everything inside a collapsed system is hidden.
+export const placeSolarSystems = (groups: Group[]): PlacedGroup[] => {
+  const { ids, children, moonRadii } = measureSystems(groups);
+  const placed = new Map<string, PlacedGroup>();
+  const place = (group: Group, x: number, y: number, depth: number, hidden: boolean) => {
+    if (placed.has(group.id)) return;
+    placed.set(group.id, { ...group, x, y, depth, hidden });
+    const kids = children.get(group.id) ?? [];
+    const radius = moonRadii.get(group.id) ?? 0;
+    kids.forEach((kid, i) => {
+      const angle = MOON_ANGLE_OFFSET + (i / kids.length) * 2 * Math.PI;
+      place(kid, x + radius * Math.cos(angle), y + radius * Math.sin(angle), depth + 1, hidden || !!group.collapsed);
+    });
+  };
+  groups.forEach(g => isRoot(ids, g) && place(g, g.x, g.y, 0, false));
+  // Anything still unplaced is caught in a parent cycle; show it where it was stored.
+  groups.forEach(g => place(g, g.x, g.y, 0, false));
+  return groups.map(g => placed.get(g.id)!);
+};
+
+// The visible sun whose center is under `point`, ignoring the suns in `exclude`.
+export const findNestTarget = (placed: PlacedGroup[], point: { x: number; y: number }, exclude: Set<string>) =>
+  placed.find(g => !g.hidden && !exclude.has(g.id) && Math.hypot(g.x - point.x, g.y - point.y) <= NEST_RADIUS) ?? null;
+
+export const systemContains = (groups: Group[], placed: PlacedGroup[], groupId: string, point: { x: number; y: number }) => {
+  const group = placed.find(g => g.id === groupId);
+  const extent = measureSystems(groups).extents.get(groupId);
+  return !!group && extent !== undefined && Math.hypot(group.x - point.x, group.y - point.y) <= extent;
+};
+
+// Every free-standing system with how far it reaches, e.g. to find room around them.
+export const rootSystems = (groups: Group[]) => {
+  const { ids, extents } = measureSystems(groups);
+  return groups.filter(g => isRoot(ids, g)).map(g => ({ id: g.id, x: g.x, y: g.y, radius: extents.get(g.id) ?? SUN_RADIUS }));
+};
+
+// --- AUTO-ARRANGE ---
+// New positions for the root suns: rows of roughly equal count that keep the systems' reading
+// order (top to bottom, then left to right) and the layout's overall center, with no orbits
+// touching. Sub-systems follow their roots.
+export const arrangeSystems = (groups: Group[]) => {
+  const systems = rootSystems(groups);
+  const positions = new Map<string, { x: number; y: number }>();
+  if (systems.length === 0) return positions;
+  const columns = Math.ceil(Math.sqrt(systems.length));
+  const byReadingOrder = [...systems].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: (typeof systems)[] = [];
+  for (let i = 0; i < byReadingOrder.length; i += columns) {
+    rows.push(byReadingOrder.slice(i, i + columns).sort((a, b) => a.x - b.x));
+  }
+  const rowWidth = (row: typeof systems) => row.reduce((sum, s) => sum + s.radius * 2, 0) + ARRANGE_GAP * (row.length - 1);
+  const width = Math.max(...rows.map(rowWidth));
+  let top = 0;
+  rows.forEach(row => {
+    const half = Math.max(...row.map(s => s.radius));
+    let left = (width - rowWidth(row)) / 2;
+    row.forEach(system => {
+      positions.set(system.id, { x: left + system.radius, y: top + half });
+      left += system.radius * 2 + ARRANGE_GAP;
+    });
+    top += half * 2 + ARRANGE_GAP;
+  });
+  const height = top - ARRANGE_GAP;
+  const xs = systems.map(s => s.x);
+  const ys = systems.map(s => s.y);
+  const dx = (Math.min(...xs) + Math.max(...xs)) / 2 - width / 2;
+  const dy = (Math.min(...ys) + Math.max(...ys)) / 2 - height / 2;
+  positions.forEach((p, id) => positions.set(id, { x: p.x + dx, y: p.y + dy }));
+  return positions;
+};
+
+// --- COLLISION AVOIDANCE ---
+// Pushes overlapping solar systems apart along the line between their suns. Only root suns
+// move; sub-systems travel with them. The suns in `fixedIds` (e.g. the ones just dropped) stay
+// put and the others make room for them.
+export const separateGroups = (groups: Group[], fixedIds: string[] = [], maxPasses = 20): Group[] => {
+  const positions = groups.map(g => ({ x: g.x, y: g.y }));
+  const { ids, extents: systemExtents } = measureSystems(groups);
+  const extents = groups.map(g => systemExtents.get(g.id) ?? SUN_RADIUS);
+  const roots = groups.map((_, i) => i).filter(i => isRoot(ids, groups[i]));
+
+  for (let pass = 0; pass < maxPasses; pass++) {
+    let moved = false;
+    for (let ri = 0; ri < roots.length; ri++) {
+      for (let rj = ri + 1; rj < roots.length; rj++) {
+        const i = roots[ri];
+        const j = roots[rj];
+        const a = positions[i];
+        const b = positions[j];
+        const minDistance = extents[i] + extents[j] + GROUP_MARGIN;
+        let dx = b.x - a.x;
+        let dy = b.y - a.y;
+        let distance = Math.hypot(dx, dy);
+        if (distance >= minDistance) continue;
+        if (distance < 0.01) {
+          // Stacked exactly on top of each other: pick a direction that differs per pair.
+          const angle = ((i + j) * 2.39996) % (2 * Math.PI);
+          dx = Math.cos(angle);
+          dy = Math.sin(angle);
+          distance = 1;
+        }
+        const push = minDistance - Math.hypot(b.x - a.x, b.y - a.y);
+        const ux = dx / distance;
+        const uy = dy / distance;
+        const aFixed = fixedIds.includes(groups[i].id);
+        const bFixed = fixedIds.includes(groups[j].id);
+        const aShare = aFixed === bFixed ? 0.5 : aFixed ? 0 : 1;
+        const bShare = 1 - aShare;
+        a.x -= ux * push * aShare;
+        a.y -= uy * push * aShare;
+        b.x += ux * push * bShare;
+        b.y += uy * push * bShare;
+        moved = true;
+      }
+    }
+    if (!moved) break;
+  }
+
+  return groups.map((group, i) => {
+    const { x, y } = positions[i];
+    return Math.abs(x - group.x) < 0.5 && Math.abs(y - group.y) < 0.5 ? group : { ...group, x, y };
+  });
+};
+
+// --- PLACEMENT ---
+// Scans a grid outward from `origin` for spots at least one footprint away from every
+// existing sun, so freshly created groups never land on top of each other. Suns given with a
+// `radius` (their system's reach) keep a new sun that much plus half a footprint away instead.
+export const findFreePositions = (
+  existing: (Pick<Group, 'x' | 'y'> & { radius?: number })[],
+  count: number,
+  origin = { x: 400, y: 300 },
+  spacing = GROUP_FOOTPRINT,
+): { x: number; y: number }[] => {
+  const taken = existing.map(g => ({ x: g.x, y: g.y, radius: g.radius }));
+  const found: { x: number; y: number }[] = [];
+  const isFree = (p: { x: number; y: number }) =>
+    taken.every(t => Math.hypot(t.x - p.x, t.y - p.y) >= (t.radius === undefined ? spacing : t.radius + spacing / 2));
+
+  for (let ring = 0; found.length < count; ring++) {
+    const cells: { row: number; col: number }[] = [];
+    for (let row = -ring; row <= ring; row++) {
+      for (let col = -ring; col <= ring; col++) {
+        if (Math.max(Math.abs(row), Math.abs(col)) === ring) cells.push({ row, col });
+      }
+    }
+    // Nearest cells first; on ties prefer right and below, which stay on screen.
+    cells.sort((a, b) =>
+      Math.hypot(a.row, a.col) - Math.hypot(b.row, b.col) || Number(a.col < 0) - Number(b.col < 0) || Number(a.row < 0) - Number(b.row < 0)
+    );
+    for (const { row, col } of cells) {
+      if (found.length >= count) break;
+      const candidate = { x: origin.x + col * spacing, y: origin.y + row * spacing };
+      if (isFree(candidate)) {
+        taken.push({ ...candidate, radius: undefined });
+        found.push(candidate);
+      }
+    }
+  }
+  return found;
+};
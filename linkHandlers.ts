@@ -0,0 +1,175 @@
+import { Favorite } from './types';
+
+// --- CONSTANTS ---
+const TEAMS_WEB_ORIGIN = 'https://teams.microsoft.com';
+// How long a protocol link gets to hand off to the desktop app before the web fallback opens.
+const PROTOCOL_FALLBACK_MS = 1500;
+
+// --- DATA TYPES ---
+export type FavoriteType = Favorite['type'];
+
+export type NormalizeResult = { ok: true; url: string; error?: undefined } | { ok: false; error: string; url?: undefined };
+
+// Where a click goes: `href` first, then `fallback` if no app picked the protocol link up.
+export interface LinkTarget {
+  href: string;
+  fallback?: string;
+}
+
+// Everything the app knows about a favorite type. Registering a handler makes the type show up
+// in the editor, in search and in descriptions; App never switches on `type` itself.
+export interface LinkHandler {
+  type: FavoriteType;
+  // `label` names the type in the editor's picker; `description` reads inside a sentence
+  // ("Q3 Report, Excel workbook") in search results and screen-reader labels.
+  label: string;
+  description: string;
+  urlLabel: string;
+  urlPlaceholder: string;
+  // Only plain web pages can be shown in the in-app frame.
+  embeddable: boolean;
+  // Turns what the user typed into the URL that is stored, or explains why it can't be used.
+  normalize: (input: string) => NormalizeResult;
+  resolve: (favorite: Favorite) => LinkTarget;
+}
+
+// --- REGISTRY ---
+const handlers = new Map<FavoriteType, LinkHandler>();
+
+export const registerLinkHandler = (handler: LinkHandler) => {
+  handlers.set(handler.type, handler);
+};
+
+export const linkHandlers = () => Array.from(handlers.values());
+
+export const isFavoriteType = (value: unknown): value is FavoriteType => handlers.has(value as FavoriteType);
+
+export const getLinkHandler = (type: FavoriteType) => handlers.get(type) ?? handlers.get('web')!;
+
+export const typeDescription = (type: FavoriteType) => getLinkHandler(type).description;
+
+// Whether the favorite's handler accepts its URL. One that doesn't (a "#" from the old sample
+// data, a `javascript:` link in an edited file) is kept and flagged, but never opened.
+export const hasUsableLink = (favorite: Favorite) => getLinkHandler(favorite.type).normalize(favorite.url).ok;
+
+// The favorite with its URL in stored form. Favorites that don't come through the editor, from
+// files, other tabs or a team board, pass through here; an unusable URL is left as it is.
+export const normalizeFavorite = (favorite: Favorite): Favorite => {
+  const result = getLinkHandler(favorite.type).normalize(favorite.url);
+  return !result.ok || result.url === favorite.url ? favorite : { ...favorite, url: result.url };
+};
+
+// --- URL HELPERS ---
+const parseUrl = (input: string) => {
+  try {
+    return new URL(input);
+  } catch {
+    return null;
+  }
+};
+
+// Accepts "example.com/x" as well as full URLs; only http(s) is allowed. Single-label hosts such as
+// "intranet" or "localhost" are fine, since internal sites are a board's usual targets.
+const normalizeWebUrl = (input: string): NormalizeResult => {
+  const trimmed = input.trim();
+  if (!trimmed) return { ok: false, error: 'Enter a URL.' };
+  const url = parseUrl(/^[a-z][a-z0-9+.-]*:/i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  if (!url || !/^https?:$/.test(url.protocol) || !url.hostname) {
+    return { ok: false, error: `"${trimmed}" is not a valid web address.` };
+  }
+  return { ok: true, url: url.href };
+};
+
+const isEmail = (text: string) => /^[^\s@/:?]+@[^\s@/:?]+\.[^\s@/:?]+$/.test(text);
+
+// msteams:/l/… and https://teams.microsoft.com/l/… are the same link for the desktop and web apps.
+const teamsWebUrl = (input: string) => {
+  const trimmed = input.trim();
+  if (/^msteams:/i.test(trimmed)) return `${TEAMS_WEB_ORIGIN}${trimmed.replace(/^msteams:/i, '').replace(/^\/*/, '/')}`;
+  const url = parseUrl(trimmed);
+  return url && url.hostname === 'teams.microsoft.com' ? url.href : null;
+};
+
+const teamsTarget = (favorite: Favorite): LinkTarget => {
+  const url = parseUrl(favorite.url);
+  if (!url || url.hostname !== 'teams.microsoft.com') return { href: favorite.url };
+  return { href: `msteams:${url.pathname}${url.search}${url.hash}`, fallback: url.href };
+};
+
+// ms-excel:ofe|u|https://… opens the workbook for editing in the desktop app; the stored URL is
+// the plain document link, which doubles as the Office on the web fallback.
+const officeHandler = (type: FavoriteType, scheme: string, label: string, description: string): LinkHandler => ({
+  type,
+  label,
+  description,
+  urlLabel: 'Document URL',
+  urlPlaceholder: 'https://contoso.sharepoint.com/…',
+  embeddable: false,
+  normalize: (input) => normalizeWebUrl(input.trim().replace(new RegExp(`^${scheme}:(ofe|ofv)\\|u\\|`, 'i'), '')),
+  resolve: (favorite) => (parseUrl(favorite.url)?.protocol === 'https:'
+    ? { href: `${scheme}:ofe|u|${favorite.url}`, fallback: favorite.url }
+    : { href: favorite.url }),
+});
+
+// --- BUILT-IN HANDLERS ---
+registerLinkHandler({
+  type: 'web',
+  label: 'Web Page',
+  description: 'web page',
+  urlLabel: 'URL',
+  urlPlaceholder: 'https://example.com',
+  embeddable: true,
+  normalize: normalizeWebUrl,
+  resolve: (favorite) => ({ href: favorite.url }),
+});
+
+registerLinkHandler({
+  type: 'teams',
+  label: 'Teams Contact',
+  description: 'Teams contact',
+  urlLabel: 'Email or Teams chat link',
+  urlPlaceholder: 'alice@contoso.com',
+  embeddable: false,
+  normalize: (input) => {
+    const trimmed = input.trim().replace(/^mailto:/i, '');
+    if (isEmail(trimmed)) return { ok: true, url: `${TEAMS_WEB_ORIGIN}/l/chat/0/0?users=${encodeURIComponent(trimmed)}` };
+    const url = teamsWebUrl(trimmed);
+    return url ? { ok: true, url } : { ok: false, error: 'Enter an email address or a Teams chat link.' };
+  },
+  resolve: teamsTarget,
+});
+
+registerLinkHandler({
+  type: 'teamsGroup',
+  label: 'Teams Group',
+  description: 'Teams group',
+  urlLabel: 'Teams team or channel link',
+  urlPlaceholder: 'https://teams.microsoft.com/l/team/…',
+  embeddable: false,
+  normalize: (input) => {
+    const url = teamsWebUrl(input);
+    return url ? { ok: true, url } : { ok: false, error: 'Enter a Teams team or channel link (Get link to team in Teams).' };
+  },
+  resolve: teamsTarget,
+});
+
+registerLinkHandler(officeHandler('excel', 'ms-excel', 'Excel', 'Excel workbook'));
+registerLinkHandler(officeHandler('powerpoint', 'ms-powerpoint', 'PowerPoint', 'PowerPoint deck'));
+
+// --- LAUNCHING ---
+// Browsers give no signal when a protocol has no app, so the fallback opens unless the page
+// lost focus (the app took over) within a short grace period.
+export const openLinkTarget = ({ href, fallback }: LinkTarget) => {
+  if (!fallback || /^https?:/i.test(href)) {
+    window.open(href, '_blank', 'noopener,noreferrer');
+    return;
+  }
+  let handedOff = false;
+  const markHandedOff = () => { handedOff = true; };
+  window.addEventListener('blur', markHandedOff, { once: true });
+  window.location.href = href;
+  setTimeout(() => {
+    window.removeEventListener('blur', markHandedOff);
+    if (!handedOff && document.visibilityState === 'visible') window.open(fallback, '_blank', 'noopener,noreferrer');
+  }, PROTOCOL_FALLBACK_MS);
+};
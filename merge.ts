@@ -0,0 +1,279 @@
+import { Favorite, Group } from './types';
+import { createId } from './utils';
+import { GROUP_FOOTPRINT, findFreePositions } from './layout';
+import { normalizeUrlForCompare } from './bookmarks';
+
+// --- DATA TYPES ---
+export type ConflictResolution = 'mine' | 'theirs' | 'both';
+
+export interface GroupConflict {
+  key: string;
+  kind: 'group';
+  mine: Group;
+  theirs: Group;
+}
+
+export interface FavoriteConflict {
+  key: string;
+  kind: 'favorite';
+  reason: 'id' | 'url';
+  mine: Favorite;
+  theirs: Favorite;
+  theirsGroupName: string;
+}
+
+export type MergeConflict = GroupConflict | FavoriteConflict;
+
+export interface MergePlan {
+  newGroups: Group[];
+  newFavorites: { favorite: Favorite; groupName: string }[];
+  conflicts: MergeConflict[];
+  unchangedCount: number;
+}
+
+type FavoriteMatch =
+  | { status: 'same' }
+  | { status: 'new' }
+  | { status: 'conflict'; reason: 'id' | 'url'; mine: Favorite };
+
+// --- MATCHING ---
+const hasComparableUrl = (fav: Favorite) => fav.url.trim() !== '' && fav.url.trim() !== '#';
+
+const favoriteContent = ({ id, ...rest }: Favorite) => JSON.stringify(rest, Object.keys(rest).sort());
+
+const groupContent = (group: Group) => JSON.stringify([group.name, group.x, group.y]);
+
+// Groups match by id first; a colleague's backup has its own ids, so a unique name match counts too.
+const findGroupMatch = (mine: Group[], theirs: Group) =>
+  mine.find(g => g.id === theirs.id) ??
+  (() => {
+    const byName = mine.filter(g => g.name.trim().toLowerCase() === theirs.name.trim().toLowerCase());
+    return byName.length === 1 ? byName[0] : undefined;
+  })();
+
+const createFavoriteIndex = (groups: Group[]) => {
+  const byId = new Map<string, Favorite>();
+  const byUrl = new Map<string, Favorite>();
+  groups.forEach(g => g.favorites.forEach(fav => {
+    byId.set(fav.id, fav);
+    if (hasComparableUrl(fav)) byUrl.set(normalizeUrlForCompare(fav.url), fav);
+  }));
+  return { byId, byUrl };
+};
+
+const matchFavorite = (index: ReturnType<typeof createFavoriteIndex>, theirs: Favorite): FavoriteMatch => {
+  const sameId = index.byId.get(theirs.id);
+  if (sameId) {
+    return favoriteContent(sameId) === favoriteContent(theirs) ? { status: 'same' } : { status: 'conflict', reason: 'id', mine: sameId };
+  }
+  const sameUrl = hasComparableUrl(theirs) ? index.byUrl.get(normalizeUrlForCompare(theirs.url)) : undefined;
+  if (sameUrl) {
+    return favoriteContent(sameUrl) === favoriteContent(theirs) ? { status: 'same' } : { status: 'conflict', reason: 'url', mine: sameUrl };
+  }
+  return { status: 'new' };
+};
+
+// --- PLANNING ---
+export const planMerge = (mine: Group[], theirs: Group[]): MergePlan => {
+  const index = createFavoriteIndex(mine);
+  const plan: MergePlan = { newGroups: [], newFavorites: [], conflicts: [], unchangedCount: 0 };
+
+  theirs.forEach(theirGroup => {
+    const myGroup = findGroupMatch(mine, theirGroup);
+    const newFavorites: Favorite[] = [];
+
+    if (!myGroup) {
+      plan.newGroups.push({ ...theirGroup, favorites: newFavorites });
+    } else if (myGroup.id === theirGroup.id && groupContent(myGroup) !== groupContent(theirGroup)) {
+      plan.conflicts.push({ key: `group:${theirGroup.id}`, kind: 'group', mine: myGroup, theirs: theirGroup });
+    }
+
+    theirGroup.favorites.forEach(fav => {
+      const match = matchFavorite(index, fav);
+      if (match.status === 'same') {
+        plan.unchangedCount++;
+      } else if (match.status === 'conflict') {
+        plan.conflicts.push({ key: `favorite:${fav.id}`, kind: 'favorite', reason: match.reason, mine: match.mine, theirs: fav, theirsGroupName: theirGroup.name });
+      } else if (myGroup) {
+        plan.newFavorites.push({ favorite: fav, groupName: myGroup.name });
+      } else {
+        newFavorites.push(fav);
+      }
+    });
+  });
+
+  return plan;
+};
+
+// --- APPLYING ---
+// Unresolved conflicts keep the local version. The whole result is returned at once so the
+// caller can commit it as a single undoable change.
+export const applyMerge = (mine: Group[], theirs: Group[], resolutions: Record<string, ConflictResolution>): Group[] => {
+  const index = createFavoriteIndex(mine);
+  const usedIds = new Set([...mine.map(g => g.id), ...index.byId.keys()]);
+  const freshId = (prefix: string, preferred: string) => {
+    const id = usedIds.has(preferred) ? createId(prefix) : preferred;
+    usedIds.add(id);
+    return id;
+  };
+
+  const result = mine.map(g => ({ ...g, favorites: [...g.favorites] }));
+  const addedGroups: Group[] = [];
+  const targetFor = new Map<string, Group>();
+
+  theirs.forEach(theirGroup => {
+    const myGroup = findGroupMatch(mine, theirGroup);
+    const resolution = resolutions[`group:${theirGroup.id}`] ?? 'mine';
+    const target = myGroup && result.find(g => g.id === myGroup.id)!;
+    const isConflict = !!myGroup && myGroup.id === theirGroup.id && groupContent(myGroup) !== groupContent(theirGroup);
+
+    if (target && isConflict && resolution === 'theirs') {
+      Object.assign(target, { name: theirGroup.name, x: theirGroup.x, y: theirGroup.y });
+    }
+    if (!target || (isConflict && resolution === 'both')) {
+      const copy = { ...theirGroup, id: freshId('group', theirGroup.id), favorites: [] };
+      addedGroups.push(copy);
+      targetFor.set(theirGroup.id, copy);
+    } else {
+      targetFor.set(theirGroup.id, target);
+    }
+  });
+
+  theirs.forEach(theirGroup => theirGroup.favorites.forEach(fav => {
+    const match = matchFavorite(index, fav);
+    const target = targetFor.get(theirGroup.id)!;
+    if (match.status === 'new') {
+      target.favorites.push({ ...fav, id: freshId('fav', fav.id) });
+    } else if (match.status === 'conflict') {
+      const resolution = resolutions[`favorite:${fav.id}`] ?? 'mine';
+      if (resolution === 'theirs') {
+        const owner = result.find(g => g.favorites.some(f => f.id === match.mine.id))!;
+        owner.favorites = owner.favorites.map(f => f.id === match.mine.id ? { ...fav, id: match.mine.id } : f);
+      } else if (resolution === 'both') {
+        target.favorites.push({ ...fav, id: freshId('fav', fav.id) });
+      }
+    }
+  }));
+
+  // Added sub-groups follow their parent to wherever it ended up on our side.
+  addedGroups.forEach(group => {
+    if (group.parentId) group.parentId = targetFor.get(group.parentId)?.id;
+  });
+
+  // Keep their layout where it fits; move suns that would land on ours into free space.
+  const placed: Group[] = [...result];
+  addedGroups.forEach(group => {
+    if (group.parentId) {
+      placed.push(group);
+      return;
+    }
+    const overlaps = placed.some(g => Math.hypot(g.x - group.x, g.y - group.y) < GROUP_FOOTPRINT);
+    const position = overlaps ? findFreePositions(placed, 1, { x: group.x, y: group.y })[0] : { x: group.x, y: group.y };
+    placed.push({ ...group, ...position });
+  });
+  return placed;
+};
+
+// --- THREE-WAY MERGE ---
+// Two copies of the same board that both started from `base`, e.g. the canvas open in two tabs.
+// Whatever only one side changed is taken from that side, field by field; where both changed the
+// same field of a favorite differently ours is kept and the pair is reported.
+export interface ConcurrentEdit {
+  mine: Favorite;
+  theirs: Favorite;
+}
+
+export interface ConcurrentMerge {
+  groups: Group[];
+  conflicts: ConcurrentEdit[];
+}
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// The side that moved away from `base`, or theirs when neither did.
+const pickChanged = <T>(base: T, mine: T, theirs: T) => (isSame(mine, base) ? theirs : mine);
+
+// Ids that survive: anything either side added, and anything still on both sides. Something one
+// side removed stays removed unless the other side changed it meanwhile.
+export const mergeIds = <T>(base: Map<string, T>, mine: Map<string, T>, theirs: Map<string, T>) => {
+  const ids = new Set([...mine.keys(), ...theirs.keys()]);
+  return new Set([...ids].filter(id => {
+    if (!base.has(id) || (mine.has(id) && theirs.has(id))) return true;
+    const survivor = mine.has(id) ? mine.get(id) : theirs.get(id);
+    return !isSame(survivor, base.get(id));
+  }));
+};
+
+// Whether `order` moved anything it shares with `base`, rather than only adding or removing.
+const isReordered = (base: string[], order: string[]) => {
+  const [inBase, inOrder] = [new Set(base), new Set(order)];
+  return !isSame(base.filter(id => inOrder.has(id)), order.filter(id => inBase.has(id)));
+};
+
+// The order of whichever side reordered, with anything only the other side knows about after it.
+export const mergeOrder = (base: string[], mine: string[], theirs: string[], keep: Set<string>) => {
+  const theirsFirst = isSame(mine, base) || (!isReordered(base, mine) && isReordered(base, theirs));
+  const [first, second] = theirsFirst ? [theirs, mine] : [mine, theirs];
+  return Array.from(new Set([...first, ...second, ...keep])).filter(id => keep.has(id));
+};
+
+const mergeFields = <T extends object>(base: T | undefined, mine: T, theirs: T, skip: string[] = []) => {
+  if (isSame(mine, base)) return { merged: theirs, conflicting: false };
+  if (isSame(theirs, base)) return { merged: mine, conflicting: false };
+  const [was, ours, their] = [base ?? {}, mine, theirs] as Record<string, unknown>[];
+  const keys = new Set([...Object.keys(ours), ...Object.keys(their)].filter(k => !skip.includes(k)));
+  const merged: Record<string, unknown> = {};
+  let conflicting = false;
+  keys.forEach(key => {
+    if (!isSame(ours[key], was[key]) && !isSame(their[key], was[key]) && !isSame(ours[key], their[key])) conflicting = true;
+    const value = pickChanged(was[key], ours[key], their[key]);
+    if (value !== undefined) merged[key] = value;
+  });
+  return { merged: merged as T, conflicting };
+};
+
+// A favorite edited from a stale copy (`base`): the fields we changed win, the rest follow `current`.
+export const rebaseFavoriteEdit = (base: Favorite, edited: Favorite, current: Favorite) => {
+  const { merged, conflicting } = mergeFields(base, edited, current);
+  return { favorite: merged, conflict: conflicting ? { mine: merged, theirs: current } : null };
+};
+
+const indexFavorites = (groups: Group[]) =>
+  new Map(groups.flatMap(group => group.favorites.map(fav => [fav.id, { fav, groupId: group.id }] as const)));
+
+export const mergeConcurrent = (base: Group[], mine: Group[], theirs: Group[]): ConcurrentMerge => {
+  // Handing back the very copy that changed keeps two tabs from trading re-serialized equals.
+  if (isSame(mine, base)) return { groups: theirs, conflicts: [] };
+  if (isSame(theirs, base)) return { groups: mine, conflicts: [] };
+  const byId = (groups: Group[]) => new Map(groups.map(g => [g.id, g]));
+  const [baseGroups, myGroups, theirGroups] = [byId(base), byId(mine), byId(theirs)];
+  const groupIds = mergeIds(baseGroups, myGroups, theirGroups);
+
+  const [baseFavs, myFavs, theirFavs] = [indexFavorites(base), indexFavorites(mine), indexFavorites(theirs)];
+  const conflicts: ConcurrentEdit[] = [];
+  const placed = new Map<string, { fav: Favorite; groupId: string }>();
+  mergeIds(baseFavs, myFavs, theirFavs).forEach(id => {
+    const [was, ours, their] = [baseFavs.get(id), myFavs.get(id), theirFavs.get(id)];
+    if (!ours || !their) {
+      const only = (ours ?? their)!;
+      if (groupIds.has(only.groupId)) placed.set(id, only);
+      return;
+    }
+    const { merged: fav, conflicting } = mergeFields(was?.fav, ours.fav, their.fav);
+    if (conflicting) conflicts.push({ mine: fav, theirs: their.fav });
+    // A favorite moved into a group the other side deleted falls back to wherever else it is.
+    const groupId = [pickChanged(was?.groupId, ours.groupId, their.groupId), ours.groupId, their.groupId].find(g => groupIds.has(g));
+    if (groupId) placed.set(id, { fav, groupId });
+  });
+
+  const orderIn = (groups: Map<string, Group>, groupId: string) => groups.get(groupId)?.favorites.map(f => f.id) ?? [];
+  const order = mergeOrder(base.map(g => g.id), mine.map(g => g.id), theirs.map(g => g.id), groupIds);
+  const groups = order.map(groupId => {
+    const [was, ours, their] = [baseGroups.get(groupId), myGroups.get(groupId), theirGroups.get(groupId)];
+    const fields = ours && their ? mergeFields(was, ours, their, ['favorites']).merged : (ours ?? their)!;
+    const members = new Set([...placed].filter(([, p]) => p.groupId === groupId).map(([id]) => id));
+    const favoriteOrder = mergeOrder(orderIn(baseGroups, groupId), orderIn(myGroups, groupId), orderIn(theirGroups, groupId), members);
+    return { ...fields, favorites: favoriteOrder.map(id => placed.get(id)!.fav) };
+  });
+  return { groups, conflicts };
+};
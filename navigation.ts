@@ -0,0 +1,98 @@
+import { Favorite, Group } from './types';
+import { PlacedGroup } from './layout';
+import { typeDescription } from './linkHandlers';
+
+// --- DATA TYPES ---
+// Everything on the canvas that can hold keyboard focus. Keys are also written to the
+// element's `data-nav-key` so focus can be moved to it.
+export type CanvasNode =
+  | { kind: 'group'; key: string; group: PlacedGroup }
+  | { kind: 'favorite'; key: string; group: PlacedGroup; favorite: Favorite; index: number };
+
+export type NavigationMove = 'nextSun' | 'previousSun' | 'nextPlanet' | 'previousPlanet' | 'firstPlanet' | 'lastPlanet' | 'sun';
+
+export const groupKey = (id: string) => `group:${id}`;
+export const favoriteKey = (id: string) => `favorite:${id}`;
+
+// --- ORDER ---
+// Visible suns in tree order: every parent comes right before its sub-systems.
+export const navigableSuns = (placed: PlacedGroup[]) => {
+  const visible = placed.filter(g => !g.hidden);
+  const ids = new Set(visible.map(g => g.id));
+  const ordered: PlacedGroup[] = [];
+  const seen = new Set<string>();
+  const visit = (group: PlacedGroup) => {
+    if (seen.has(group.id)) return;
+    seen.add(group.id);
+    ordered.push(group);
+    visible.filter(g => g.parentId === group.id).forEach(visit);
+  };
+  visible.filter(g => !g.parentId || !ids.has(g.parentId)).forEach(visit);
+  // Suns caught in a parent cycle are drawn as roots, so they stay reachable too.
+  visible.forEach(visit);
+  return ordered;
+};
+
+// A collapsed sun is a single badge; its planets can't be reached until it is expanded.
+export const planetsOf = (group: Group) => (group.collapsed ? [] : group.favorites);
+
+export const findNode = (suns: PlacedGroup[], key: string | null): CanvasNode | null => {
+  if (!key) return null;
+  for (const group of suns) {
+    if (groupKey(group.id) === key) return { kind: 'group', key, group };
+    const index = planetsOf(group).findIndex(f => favoriteKey(f.id) === key);
+    if (index >= 0) return { kind: 'favorite', key, group, favorite: group.favorites[index], index };
+  }
+  return null;
+};
+
+// Planets wrap around their orbit; suns stop at either end so Tab can leave the canvas.
+export const nextFocus = (suns: PlacedGroup[], key: string, move: NavigationMove): string | null => {
+  const node = findNode(suns, key);
+  if (!node) return null;
+  const planets = planetsOf(node.group);
+  const sunIndex = suns.findIndex(g => g.id === node.group.id);
+
+  switch (move) {
+    case 'nextSun':
+      return suns[sunIndex + 1] ? groupKey(suns[sunIndex + 1].id) : null;
+    case 'previousSun':
+      if (node.kind === 'favorite') return groupKey(node.group.id);
+      return suns[sunIndex - 1] ? groupKey(suns[sunIndex - 1].id) : null;
+    case 'sun':
+      return groupKey(node.group.id);
+    case 'firstPlanet':
+      return planets.length ? favoriteKey(planets[0].id) : null;
+    case 'lastPlanet':
+      return planets.length ? favoriteKey(planets[planets.length - 1].id) : null;
+    case 'nextPlanet':
+    case 'previousPlanet': {
+      if (planets.length === 0) return null;
+      if (node.kind === 'group') return favoriteKey((move === 'nextPlanet' ? planets[0] : planets[planets.length - 1]).id);
+      const step = move === 'nextPlanet' ? 1 : -1;
+      return favoriteKey(planets[(node.index + step + planets.length) % planets.length].id);
+    }
+  }
+};
+
+// --- DESCRIPTIONS ---
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+export const describeGroup = (groups: Group[], group: Group) => {
+  const parent = groups.find(g => g.id === group.parentId);
+  const subGroups = groups.filter(g => g.parentId === group.id).length;
+  return [
+    parent ? `${group.name}, sub-group of ${parent.name}` : `${group.name} group`,
+    plural(group.favorites.length, 'favorite'),
+    subGroups > 0 && plural(subGroups, 'sub-group'),
+    group.collapsed && 'collapsed',
+  ].filter(Boolean).join(', ');
+};
+
+export const describeFavorite = (favorite: Favorite) =>
+  [
+    favorite.name,
+    typeDescription(favorite.type),
+    favorite.tags?.length && `tagged ${favorite.tags.join(', ')}`,
+    favorite.pinnedAngle !== undefined && `pinned at ${favorite.pinnedAngle} degrees`,
+  ].filter(Boolean).join(', ');
@@ -0,0 +1,181 @@
+import { Favorite, Group } from './types';
+import { ancestorIds } from './hierarchy';
+import { linkHandlers, typeDescription } from './linkHandlers';
+import { hasTag } from './tags';
+
+// --- CONSTANTS ---
+const SAVED_SEARCHES_KEY = 'visualFavoritesSavedSearches';
+// Fuzzy scores below this only come from loose subsequence matches, which filters don't accept.
+const TYPO_SCORE = 0.3;
+const FIELD_WEIGHTS = { name: 1, displayText: 0.9, tag: 0.8, group: 0.7, url: 0.6, type: 0.5, note: 0.4 };
+
+// --- DATA TYPES ---
+export type SearchField = 'name' | 'url' | 'group' | 'type' | 'tag';
+
+export interface SearchFilter {
+  field: SearchField;
+  value: string;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  filters: SearchFilter[];
+}
+
+export interface SearchHit {
+  groupId: string;
+  favorite: Favorite;
+  score: number;
+}
+
+const SEARCH_FIELDS: SearchField[] = ['name', 'url', 'group', 'type', 'tag'];
+
+// --- QUERY SYNTAX ---
+// `type:excel group:"Work Tools" report` → one free term and two filters. Quotes keep spaces
+// together; an unknown prefix (e.g. `https://…`) is searched as plain text. `#q3` is `tag:q3`.
+export const parseQuery = (query: string): ParsedQuery => {
+  const parsed: ParsedQuery = { terms: [], filters: [] };
+  const token = /(\w+):"([^"]*)"?|(\w+):(\S+)|"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(query))) {
+    const field = (match[1] ?? match[3])?.toLowerCase() as SearchField | undefined;
+    const value = match[2] ?? match[4];
+    if (field && SEARCH_FIELDS.includes(field)) {
+      if (value.trim()) parsed.filters.push({ field, value: value.trim() });
+    } else if (/^#[^#\s]/.test(match[0])) {
+      parsed.filters.push({ field: 'tag', value: match[0].slice(1) });
+    } else {
+      const term = (match[5] ?? match[0]).trim();
+      if (term) parsed.terms.push(term);
+    }
+  }
+  return parsed;
+};
+
+// --- SCORING ---
+const normalize = (text: string) => text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+
+// Optimal string alignment distance: Levenshtein plus adjacent swaps ("exel", "excle").
+const editDistance = (a: string, b: string) => {
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], previous2[j - 2] + 1);
+      }
+    }
+    previous2 = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Letters in order with gaps, so "qrpt" finds "Q3 Report"; tighter spans score higher.
+const subsequenceScore = (needle: string, text: string) => {
+  let start = -1;
+  let position = 0;
+  for (const char of needle) {
+    position = text.indexOf(char, position);
+    if (position < 0) return 0;
+    if (start < 0) start = position;
+    position++;
+  }
+  return 0.1 + 0.15 * (needle.length / (position - start));
+};
+
+// 1 for an exact match down to 0 for no match. Short needles must match literally; longer ones
+// may contain one typo, and from eight letters on, two.
+export const fuzzyScore = (needle: string, text: string, { loose = true } = {}) => {
+  const n = normalize(needle);
+  const t = normalize(text);
+  if (!n) return 1;
+  if (!t) return 0;
+  if (t === n) return 1;
+  const index = t.indexOf(n);
+  if (index === 0) return 0.9;
+  if (index > 0) return /[a-z0-9]/.test(t[index - 1]) ? 0.6 : 0.8;
+
+  const maxTypos = n.length >= 8 ? 2 : n.length >= 4 ? 1 : 0;
+  if (maxTypos > 0) {
+    const words = t.split(/[^a-z0-9]+/).filter(Boolean);
+    // Comparing with each word's prefix too lets a typo through while the word is still being typed.
+    const distance = Math.min(...words.map(w => Math.min(editDistance(n, w), editDistance(n, w.slice(0, n.length)))));
+    if (distance <= maxTypos) return 0.5 - 0.1 * distance;
+  }
+  return loose ? subsequenceScore(n, t) : 0;
+};
+
+const substringScore = (needle: string, text: string) => (normalize(text).includes(normalize(needle)) ? 1 : 0);
+
+// --- SEARCH ---
+const matchesFilter = (filter: SearchFilter, favorite: Favorite, groupNames: string[]) => {
+  switch (filter.field) {
+    case 'name':
+      return fuzzyScore(filter.value, favorite.name, { loose: false }) >= TYPO_SCORE;
+    case 'url':
+      return substringScore(filter.value, favorite.url) > 0;
+    case 'group':
+      // Matching any ancestor keeps a parent's sub-groups in its results.
+      return groupNames.some(name => fuzzyScore(filter.value, name, { loose: false }) >= TYPO_SCORE);
+    case 'type': {
+      const value = normalize(filter.value);
+      const exact = linkHandlers().some(handler => normalize(handler.type) === value);
+      return exact ? normalize(favorite.type) === value : substringScore(value, typeDescription(favorite.type)) > 0;
+    }
+    case 'tag':
+      return hasTag(favorite.tags, filter.value);
+  }
+};
+
+// The best weighted score of a free term across a favorite's fields.
+const termScore = (term: string, favorite: Favorite, groupNames: string[]) => Math.max(
+  FIELD_WEIGHTS.name * fuzzyScore(term, favorite.name),
+  FIELD_WEIGHTS.displayText * (favorite.displayText ? fuzzyScore(term, favorite.displayText, { loose: false }) : 0),
+  FIELD_WEIGHTS.group * Math.max(0, ...groupNames.map(name => fuzzyScore(term, name, { loose: false }))),
+  FIELD_WEIGHTS.url * substringScore(term, favorite.url),
+  FIELD_WEIGHTS.tag * Math.max(0, ...(favorite.tags ?? []).map(tag => fuzzyScore(term, tag, { loose: false }))),
+  FIELD_WEIGHTS.type * Math.max(substringScore(term, favorite.type), substringScore(term, typeDescription(favorite.type))),
+  FIELD_WEIGHTS.note * (favorite.note ? substringScore(term, favorite.note) : 0),
+);
+
+export const isEmptyQuery = (query: ParsedQuery) => query.terms.length === 0 && query.filters.length === 0;
+
+// Every filter and every free term must match. Best matches come first; ties keep canvas order.
+export const searchFavorites = (groups: Group[], query: ParsedQuery): SearchHit[] => {
+  const byId = new Map(groups.map(g => [g.id, g]));
+  const hits: SearchHit[] = [];
+  groups.forEach(group => {
+    const groupNames = [group.id, ...ancestorIds(groups, group.id)].map(id => byId.get(id)?.name ?? '');
+    group.favorites.forEach(favorite => {
+      if (!query.filters.every(filter => matchesFilter(filter, favorite, groupNames))) return;
+      let score = 0;
+      for (const term of query.terms) {
+        const best = termScore(term, favorite, groupNames);
+        if (best <= 0) return;
+        score += best;
+      }
+      hits.push({ groupId: group.id, favorite, score });
+    });
+  });
+  return hits.sort((a, b) => b.score - a.score);
+};
+
+// --- SAVED SEARCHES ---
+// Shared by every board, since the filters are just text.
+export const loadSavedSearches = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SAVED_SEARCHES_KEY) || '[]');
+    if (Array.isArray(saved)) return saved.filter((q): q is string => typeof q === 'string');
+  } catch (error) {
+    console.warn('Discarding unreadable saved searches.', error);
+  }
+  return [];
+};
+
+export const saveSavedSearches = (queries: string[]) => {
+  localStorage.setItem(SAVED_SEARCHES_KEY, JSON.stringify(queries));
+};
@@ -0,0 +1,144 @@
+import { Favorite, Group } from './types';
+import { ancestorIds, descendantIds, removeGroup } from './hierarchy';
+import { PlacedGroup, findFreePositions } from './layout';
+import { Bounds } from './viewport';
+import { hasTag } from './tags';
+import { createId } from './utils';
+
+// --- DATA TYPES ---
+// Suns and planets are picked independently; picking a sun doesn't pick its planets.
+export interface Selection {
+  groupIds: string[];
+  favoriteIds: string[];
+}
+
+export interface SelectedFavorite {
+  fromGroupId: string;
+  item: Favorite;
+}
+
+export const EMPTY_SELECTION: Selection = { groupIds: [], favoriteIds: [] };
+
+// --- QUERIES ---
+export const selectionSize = (selection: Selection) => selection.groupIds.length + selection.favoriteIds.length;
+
+export const describeSelection = ({ groupIds, favoriteIds }: Selection) => {
+  const parts = [];
+  if (favoriteIds.length) parts.push(`${favoriteIds.length} favorite${favoriteIds.length === 1 ? '' : 's'}`);
+  if (groupIds.length) parts.push(`${groupIds.length} group${groupIds.length === 1 ? '' : 's'}`);
+  return parts.join(' and ') || 'Nothing';
+};
+
+// Drops anything that no longer exists, e.g. after an undo.
+export const pruneSelection = (selection: Selection, groups: Group[]): Selection => {
+  const groupIds = new Set(groups.map(g => g.id));
+  const favoriteIds = new Set(groups.flatMap(g => g.favorites.map(f => f.id)));
+  const pruned = {
+    groupIds: selection.groupIds.filter(id => groupIds.has(id)),
+    favoriteIds: selection.favoriteIds.filter(id => favoriteIds.has(id)),
+  };
+  return selectionSize(pruned) === selectionSize(selection) ? selection : pruned;
+};
+
+// The picked planets in canvas order, each with the group it is in.
+export const selectedFavorites = (groups: Group[], selection: Selection): SelectedFavorite[] => {
+  const ids = new Set(selection.favoriteIds);
+  return groups.flatMap(group => group.favorites.filter(f => ids.has(f.id)).map(item => ({ fromGroupId: group.id, item })));
+};
+
+// Picked planets plus every planet of a picked sun: what tagging and deleting act on.
+export const coveredFavoriteIds = (groups: Group[], selection: Selection) => {
+  const ids = new Set(selection.favoriteIds);
+  groups.filter(g => selection.groupIds.includes(g.id)).forEach(g => g.favorites.forEach(f => ids.add(f.id)));
+  return ids;
+};
+
+// Picked suns that aren't inside another picked sun; the rest already move with their parent.
+export const outermostGroupIds = (groups: Group[], groupIds: string[]) => {
+  const picked = new Set(groupIds);
+  return groupIds.filter(id => !ancestorIds(groups, id).some(a => picked.has(a)));
+};
+
+// Everything whose center lies inside `bounds` (world coordinates). Hidden suns and planets
+// of collapsed systems aren't drawn, so they can't be lassoed.
+export const selectInBounds = (
+  placed: PlacedGroup[],
+  planetPositions: { [id: string]: { x: number; y: number } },
+  bounds: Bounds,
+): Selection => {
+  const inside = (p: { x: number; y: number }) => p.x >= bounds.minX && p.x <= bounds.maxX && p.y >= bounds.minY && p.y <= bounds.maxY;
+  return {
+    groupIds: placed.filter(g => !g.hidden && inside(g)).map(g => g.id),
+    favoriteIds: Object.keys(planetPositions).filter(id => inside(planetPositions[id])),
+  };
+};
+
+// --- UPDATES ---
+const toggle = (ids: string[], id: string) => (ids.includes(id) ? ids.filter(x => x !== id) : [...ids, id]);
+
+export const toggleGroup = (selection: Selection, id: string): Selection => ({ ...selection, groupIds: toggle(selection.groupIds, id) });
+
+export const toggleFavorite = (selection: Selection, id: string): Selection => ({ ...selection, favoriteIds: toggle(selection.favoriteIds, id) });
+
+export const mergeSelections = (a: Selection, b: Selection): Selection => ({
+  groupIds: Array.from(new Set([...a.groupIds, ...b.groupIds])),
+  favoriteIds: Array.from(new Set([...a.favoriteIds, ...b.favoriteIds])),
+});
+
+// --- BULK OPERATIONS ---
+// Takes `items` out of wherever they are and puts them, in order, at `toIndex` of the target's
+// remaining favorites (or at the end).
+export const moveFavorites = (groups: Group[], items: Favorite[], toGroupId: string, toIndex?: number): Group[] => {
+  const ids = new Set(items.map(f => f.id));
+  return groups.map(group => {
+    const remaining = group.favorites.filter(f => !ids.has(f.id));
+    if (group.id !== toGroupId) return remaining.length === group.favorites.length ? group : { ...group, favorites: remaining };
+    const index = Math.min(toIndex ?? remaining.length, remaining.length);
+    return { ...group, favorites: [...remaining.slice(0, index), ...items, ...remaining.slice(index)] };
+  });
+};
+
+// Picked suns go with all their planets; their sub-systems stay, as when deleting one sun.
+export const removeSelection = (groups: Group[], selection: Selection, positions: Map<string, { x: number; y: number }>) => {
+  const favoriteIds = new Set(selection.favoriteIds);
+  const withoutGroups = selection.groupIds.reduce((acc, id) => removeGroup(acc, id, positions), groups);
+  return withoutGroups.map(group =>
+    group.favorites.some(f => favoriteIds.has(f.id)) ? { ...group, favorites: group.favorites.filter(f => !favoriteIds.has(f.id)) } : group
+  );
+};
+
+// Adds `tags` to each favorite, skipping the ones it already has (in any capitalization).
+export const addTags = (groups: Group[], favoriteIds: Set<string>, tags: string[]) =>
+  groups.map(group => {
+    if (!group.favorites.some(f => favoriteIds.has(f.id))) return group;
+    return {
+      ...group,
+      favorites: group.favorites.map(fav => {
+        if (!favoriteIds.has(fav.id)) return fav;
+        const added = tags.filter(tag => !hasTag(fav.tags, tag));
+        return added.length ? { ...fav, tags: [...(fav.tags ?? []), ...added] } : fav;
+      }),
+    };
+  });
+
+// The groups an export of the selection contains: picked suns with their whole sub-systems, and
+// any loose picked planets collected into one extra group. Sub-suns whose parent stays behind
+// become free suns where they are drawn now.
+export const selectionGroups = (
+  groups: Group[],
+  selection: Selection,
+  positions: Map<string, { x: number; y: number }>,
+  looseGroupName: string,
+): Group[] => {
+  const included = new Set<string>();
+  selection.groupIds.forEach(id => [id, ...descendantIds(groups, id)].forEach(g => included.add(g)));
+  const exported = groups.filter(g => included.has(g.id)).map(group => {
+    if (!group.parentId || included.has(group.parentId)) return group;
+    const { parentId, ...rest } = group;
+    return { ...rest, ...(positions.get(group.id) ?? { x: group.x, y: group.y }) };
+  });
+  const loose = selectedFavorites(groups, selection).filter(({ fromGroupId }) => !included.has(fromGroupId)).map(s => s.item);
+  if (loose.length === 0) return exported;
+  const [spot] = findFreePositions(exported, 1);
+  return [...exported, { id: createId('group'), name: looseGroupName, favorites: loose, ...spot }];
+};
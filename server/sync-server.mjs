@@ -0,0 +1,433 @@
+// Sync server for team boards. Clients send operations for a board; the server numbers them,
+// stores them and passes them on to everyone subscribed to that board, along with presence
+// cursors. It never applies an operation, only checks its shape: clients apply them (see
+// teamSync.ts), and now and then one of them hands back a snapshot so the stored log stays short.
+//
+//   npm run sync-server                 # ws://localhost:8787
+//   PORT=9000 SYNC_DATA_DIR=/var/lib/visual-favorites npm run sync-server
+//
+// Uses nothing outside Node itself, so it runs anywhere Node 18+ does.
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+// --- CONSTANTS ---
+const PORT = Number(process.env.PORT ?? 8787);
+const DATA_DIR = path.resolve(process.env.SYNC_DATA_DIR ?? 'sync-data');
+const WEBSOCKET_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+// Operations can carry thumbnails, so messages are allowed to be fairly large.
+const MAX_MESSAGE_BYTES = 8 * 1024 * 1024;
+const SAVE_DELAY_MS = 1000;
+const PING_INTERVAL_MS = 30_000;
+// Ids of accepted operations are kept this long after a snapshot has absorbed the operations
+// themselves, so a client resending its offline queue doesn't apply anything twice.
+const REMEMBERED_OP_IDS = 10_000;
+const PEER_COLORS = ['#ff4081', '#ffc400', '#00e676', '#00b0ff', '#d500f9', '#ff6d00', '#76ff03', '#18ffff'];
+
+const OPCODE = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+// --- WEBSOCKET FRAMING ---
+// Just enough of RFC 6455 for this protocol: text messages (possibly fragmented), ping/pong and close.
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Splits complete frames off the front of `buffer`; whatever is left waits for more data.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_MESSAGE_BYTES) throw new Error('Frame too large');
+    const maskLength = masked ? 4 : 0;
+    if (buffer.length < cursor + maskLength + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    cursor += maskLength;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin, opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// Wraps an upgraded socket in a tiny message-based connection.
+const createConnection = (socket, handlers) => {
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  let alive = true;
+
+  const send = (message) => {
+    if (!closed) socket.write(encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message))));
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(pinger);
+    socket.end(encodeFrame(OPCODE.close));
+    handlers.onClose();
+  };
+
+  // Drops connections that stopped answering, e.g. a laptop that went to sleep.
+  const pinger = setInterval(() => {
+    if (!alive) {
+      socket.destroy();
+      return;
+    }
+    alive = false;
+    socket.write(encodeFrame(OPCODE.ping));
+  }, PING_INTERVAL_MS);
+
+  socket.on('data', (chunk) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    let decoded;
+    try {
+      decoded = decodeFrames(buffered);
+    } catch {
+      close();
+      return;
+    }
+    buffered = decoded.rest;
+    decoded.frames.forEach(({ fin, opcode, payload }) => {
+      alive = true;
+      if (opcode === OPCODE.close) return close();
+      if (opcode === OPCODE.ping) return socket.write(encodeFrame(OPCODE.pong, payload));
+      if (opcode === OPCODE.pong) return;
+      fragments.push(payload);
+      if (!fin) return;
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      try {
+        handlers.onMessage(JSON.parse(text));
+      } catch (error) {
+        send({ type: 'error', message: `Unreadable message: ${error.message}` });
+      }
+    });
+  });
+  socket.on('close', () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(pinger);
+    handlers.onClose();
+  });
+  socket.on('error', () => socket.destroy());
+
+  return { send, close };
+};
+
+// --- BOARDS ---
+// Each board: the last snapshot a client sent, the operations after it, the ids of recently
+// accepted operations and who is subscribed.
+const boards = new Map();
+const saveTimers = new Map();
+
+const boardFile = (boardId) => path.join(DATA_DIR, `${encodeURIComponent(boardId)}.json`);
+
+// What was saved for a board, or null if it never was. Throws when the file can't be read as one.
+const readStoredBoard = async (boardId) => {
+  let text;
+  try {
+    text = await readFile(boardFile(boardId), 'utf8');
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+  const stored = JSON.parse(text);
+  if (!isStoredBoard(stored)) throw new Error('not a stored board');
+  return stored;
+};
+
+// Only a join brings a board into memory. An unreadable file is moved aside rather than left to
+// be overwritten by the empty board that takes its place.
+const loadBoard = async (boardId) => {
+  if (boards.has(boardId)) return boards.get(boardId);
+  let stored = null;
+  try {
+    stored = await readStoredBoard(boardId);
+  } catch (error) {
+    const aside = `${boardFile(boardId)}.unreadable-${Date.now()}`;
+    console.warn(`Could not read board ${boardId} (${error.message}); moving it to ${aside} and starting it empty.`);
+    await rename(boardFile(boardId), aside).catch(renameError => console.error(`Could not move ${boardId} aside.`, renameError.message));
+  }
+  stored ??= { snapshot: null, ops: [], seq: 0, opIds: [] };
+  // Another join may have loaded it while we were reading.
+  if (boards.has(boardId)) return boards.get(boardId);
+  // Files written before op ids were kept only have the ids of their stored operations.
+  const opIds = stored.opIds ?? stored.ops.map(entry => entry.opId);
+  const board = { ...stored, opIds, seenOpIds: new Set(opIds), clients: new Set() };
+  boards.set(boardId, board);
+  return board;
+};
+
+const saveBoard = async (boardId) => {
+  saveTimers.delete(boardId);
+  const { snapshot, ops, seq, opIds } = boards.get(boardId);
+  try {
+    await mkdir(DATA_DIR, { recursive: true });
+    await writeFile(boardFile(boardId), JSON.stringify({ snapshot, ops, seq, opIds }));
+  } catch (error) {
+    console.error(`Could not save board ${boardId}.`, error.message);
+  }
+};
+
+const scheduleSave = (boardId) => {
+  clearTimeout(saveTimers.get(boardId));
+  saveTimers.set(boardId, setTimeout(() => saveBoard(boardId), SAVE_DELAY_MS));
+};
+
+const rememberOpId = (board, opId) => {
+  board.opIds.push(opId);
+  board.seenOpIds.add(opId);
+  if (board.opIds.length > REMEMBERED_OP_IDS) board.seenOpIds.delete(board.opIds.shift());
+};
+
+const peerInfo = (client) => ({ clientId: client.id, name: client.name, color: client.color, cursor: client.cursor });
+
+const broadcast = (board, message, except) => {
+  board.clients.forEach(client => {
+    if (client !== except) client.connection.send(message);
+  });
+};
+
+const welcome = (board, client) => ({
+  type: 'welcome',
+  snapshot: board.snapshot,
+  ops: board.ops,
+  peers: [...board.clients].filter(c => c !== client).map(peerInfo),
+});
+
+// --- PROTOCOL ---
+const colorFor = (clientId) => {
+  let hash = 0;
+  for (let i = 0; i < clientId.length; i++) hash = (hash * 31 + clientId.charCodeAt(i)) >>> 0;
+  return PEER_COLORS[hash % PEER_COLORS.length];
+};
+
+const isId = (value) => typeof value === 'string' && value.length > 0 && value.length <= 200;
+
+// --- VALIDATION ---
+// Roughly what storage.ts accepts, so one broken or hostile client can't hand everyone else
+// groups their app can't read. Clients check everything again in full before applying it.
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString = (value) => typeof value === 'string';
+const isIdList = (value) => Array.isArray(value) && value.every(isId);
+const isOptional = (value, check) => value === undefined || check(value);
+
+// A link the app can't use (an old "#", say) still syncs: clients keep such favorites and flag
+// them rather than losing them, and never open them.
+const isFavorite = (value) => isObject(value) && isId(value.id) && isString(value.type) && isString(value.name)
+  && isString(value.url)
+  && isOptional(value.imageUrl, isString) && isOptional(value.displayText, isString) && isOptional(value.note, isString)
+  && isOptional(value.tags, (tags) => Array.isArray(tags) && tags.every(isString))
+  && isOptional(value.pinnedAngle, Number.isFinite);
+
+const isGroupFields = (value) => isObject(value) && isId(value.id) && isString(value.name)
+  && Number.isFinite(value.x) && Number.isFinite(value.y) && isOptional(value.parentId, isId)
+  && isOptional(value.color, (color) => isString(color) && /^#[0-9a-f]{6}$/i.test(color)) && isOptional(value.icon, isString);
+
+const isGroup = (value) => isGroupFields(value) && Array.isArray(value.favorites) && value.favorites.every(isFavorite);
+
+const isImages = (value) => isOptional(value, (images) =>
+  isObject(images) && Object.values(images).every(url => isString(url) && url.startsWith('data:image/')));
+
+const isStoredBoard = (value) => isObject(value) && (value.snapshot === null || isObject(value.snapshot))
+  && Array.isArray(value.ops) && value.ops.every(entry => isObject(entry) && Number.isInteger(entry.seq))
+  && Number.isInteger(value.seq) && isOptional(value.opIds, isIdList);
+
+const isOp = (op) => {
+  if (!isObject(op)) return false;
+  switch (op.kind) {
+    case 'putGroup': return isGroupFields(op.group);
+    case 'removeGroup': return isId(op.groupId);
+    case 'orderGroups': return isIdList(op.groupIds);
+    case 'putFavorite': return isId(op.groupId) && isFavorite(op.favorite);
+    case 'orderFavorites': return isId(op.groupId) && isIdList(op.favoriteIds);
+    case 'removeFavorites': return isIdList(op.favoriteIds);
+    default: return false;
+  }
+};
+
+const handleConnection = (socket) => {
+  const client = { id: null, name: '', color: '', cursor: null, board: null, boardId: null, connection: null };
+
+  const handleMessage = async (message) => {
+    if (message.type === 'join') {
+      if (client.board || !isId(message.boardId) || !isId(message.clientId)) {
+        client.connection.send({ type: 'error', message: 'A join needs a boardId and clientId, once per connection.' });
+        return;
+      }
+      client.id = message.clientId;
+      client.name = String(message.name ?? '').slice(0, 60) || 'Someone';
+      client.color = colorFor(client.id);
+      client.boardId = message.boardId;
+      client.board = await loadBoard(message.boardId);
+      client.board.clients.add(client);
+      client.connection.send(welcome(client.board, client));
+      broadcast(client.board, { type: 'presence', ...peerInfo(client) }, client);
+      return;
+    }
+    const board = client.board;
+    if (!board) return;
+
+    switch (message.type) {
+      case 'op': {
+        if (!isId(message.opId) || !isOp(message.op) || !isImages(message.images)) {
+          client.connection.send({ type: 'error', message: 'Rejected a malformed operation.' });
+          break;
+        }
+        // Already applied, e.g. sent again from an offline queue after the confirmation was lost.
+        // Only the sender hears about it, so it can drop the operation from its queue.
+        if (board.seenOpIds.has(message.opId)) {
+          client.connection.send({ type: 'ack', opId: message.opId });
+          break;
+        }
+        rememberOpId(board, message.opId);
+        const entry = { seq: ++board.seq, clientId: client.id, opId: message.opId, op: message.op, images: message.images };
+        board.ops.push(entry);
+        broadcast(board, { type: 'op', ...entry });
+        scheduleSave(client.boardId);
+        break;
+      }
+      case 'snapshot': {
+        const readable = Number.isInteger(message.seq) && Array.isArray(message.groups) && message.groups.every(isGroup) && isImages(message.images);
+        if (!readable) {
+          client.connection.send({ type: 'error', message: 'Rejected a malformed snapshot.' });
+          break;
+        }
+        const seeding = message.seq === 0 && !board.snapshot && board.ops.length === 0;
+        const compacting = message.seq > (board.snapshot?.seq ?? 0) && message.seq <= board.seq;
+        if (seeding || compacting) {
+          board.snapshot = { seq: message.seq, groups: message.groups, images: message.images };
+          board.ops = board.ops.filter(entry => entry.seq > message.seq);
+          scheduleSave(client.boardId);
+        } else if (message.seq === 0) {
+          // Someone else got there first; start this client over from what they seeded.
+          client.connection.send(welcome(board, client));
+        }
+        break;
+      }
+      case 'presence':
+        client.cursor = message.cursor ?? null;
+        broadcast(board, { type: 'presence', ...peerInfo(client) }, client);
+        break;
+      default:
+        client.connection.send({ type: 'error', message: `Unknown message type "${message.type}".` });
+    }
+  };
+
+  client.connection = createConnection(socket, {
+    onMessage: (message) => { handleMessage(message).catch(error => console.error('Message failed.', error)); },
+    onClose: () => {
+      if (!client.board) return;
+      client.board.clients.delete(client);
+      broadcast(client.board, { type: 'leave', clientId: client.id });
+    },
+  });
+};
+
+// --- HTTP ---
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+  response.end(JSON.stringify(body));
+};
+
+const decodeBoardId = (segment) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+};
+
+const handleRequest = async (request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  if (request.method === 'GET' && url.pathname === '/health') {
+    sendJson(response, 200, { ok: true, boards: boards.size });
+    return;
+  }
+  // A board's stored state, e.g. for a backup or to see what the server has. Looking doesn't
+  // load the board or create one.
+  const match = url.pathname.match(/^\/boards\/([^/]+)$/);
+  if (request.method === 'GET' && match) {
+    const boardId = decodeBoardId(match[1]);
+    if (!isId(boardId)) {
+      sendJson(response, 400, { error: 'Not a board id' });
+      return;
+    }
+    const board = boards.get(boardId) ?? await readStoredBoard(boardId);
+    if (!board) {
+      sendJson(response, 404, { error: 'No such board' });
+      return;
+    }
+    const { snapshot, ops, seq } = board;
+    sendJson(response, 200, { snapshot, ops, seq, online: board.clients?.size ?? 0 });
+    return;
+  }
+  sendJson(response, 404, { error: 'Not found' });
+};
+
+const server = createServer((request, response) => {
+  handleRequest(request, response).catch(error => {
+    console.error('Request failed.', error);
+    if (!response.headersSent) sendJson(response, 500, { error: 'Could not read the board' });
+  });
+});
+
+server.on('upgrade', (request, socket) => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || !key) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WEBSOCKET_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  handleConnection(socket);
+});
+
+server.listen(PORT, () => {
+  console.log(`Visual Favorites sync server on ws://localhost:${PORT} (data in ${DATA_DIR})`);
+});
+
+// Writes out saves still waiting on their delay, so stopping the server loses nothing.
+const shutdown = async () => {
+  const waiting = [...saveTimers.keys()];
+  saveTimers.forEach(timer => clearTimeout(timer));
+  await Promise.all(waiting.map(saveBoard));
+  process.exit(0);
+};
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
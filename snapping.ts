@@ -0,0 +1,65 @@
+// --- CONSTANTS ---
+const GRID_ENABLED_KEY = 'visualFavoritesSnapToGrid';
+export const GRID_SIZE = 40;
+// How close (in screen pixels) a dragged sun has to come to another sun's axis to line up with it.
+const GUIDE_THRESHOLD_PX = 10;
+// Guides run a little past the suns they connect.
+const GUIDE_OVERHANG = 60;
+
+// --- DATA TYPES ---
+type Point = { x: number; y: number };
+
+// A line in world coordinates: vertical at `x = value` when `axis` is 'x', horizontal otherwise.
+export interface Guide {
+  axis: 'x' | 'y';
+  value: number;
+  from: number;
+  to: number;
+}
+
+export interface SnapResult {
+  point: Point;
+  guides: Guide[];
+}
+
+// --- SNAPPING ---
+export const snapToGrid = (point: Point): Point => ({
+  x: Math.round(point.x / GRID_SIZE) * GRID_SIZE,
+  y: Math.round(point.y / GRID_SIZE) * GRID_SIZE,
+});
+
+// Finds the nearest sun center along one axis within `threshold`, and the guide through every
+// sun that shares it.
+const alignAxis = (axis: 'x' | 'y', point: Point, targets: Point[], threshold: number) => {
+  const cross = axis === 'x' ? 'y' : 'x';
+  let best: number | null = null;
+  targets.forEach(t => {
+    const distance = Math.abs(t[axis] - point[axis]);
+    if (distance <= threshold && (best === null || distance < Math.abs(best - point[axis]))) best = t[axis];
+  });
+  if (best === null) return null;
+  const value: number = best;
+  const along = [point[cross], ...targets.filter(t => Math.abs(t[axis] - value) < 0.5).map(t => t[cross])];
+  const guide: Guide = { axis, value, from: Math.min(...along) - GUIDE_OVERHANG, to: Math.max(...along) + GUIDE_OVERHANG };
+  return guide;
+};
+
+// Lines a dragged sun up with other suns' centers, axis by axis; an axis with nothing to line up
+// with snaps to the grid when it is on. `zoom` keeps the pull the same on screen at any zoom.
+export const snapPosition = (point: Point, targets: Point[], options: { grid: boolean; zoom: number }): SnapResult => {
+  const threshold = GUIDE_THRESHOLD_PX / options.zoom;
+  const gridPoint = options.grid ? snapToGrid(point) : point;
+  const vertical = alignAxis('x', point, targets, threshold);
+  const horizontal = alignAxis('y', point, targets, threshold);
+  return {
+    point: { x: vertical ? vertical.value : gridPoint.x, y: horizontal ? horizontal.value : gridPoint.y },
+    guides: [vertical, horizontal].filter((g): g is Guide => !!g),
+  };
+};
+
+// --- PREFERENCES ---
+export const loadGridEnabled = () => localStorage.getItem(GRID_ENABLED_KEY) === 'true';
+
+export const saveGridEnabled = (enabled: boolean) => {
+  localStorage.setItem(GRID_ENABLED_KEY, String(enabled));
+};
@@ -0,0 +1,408 @@
+import { Board, Favorite, FavoriteUsage, Group, TeamBoard, ViewState, Workspace } from './types';
+import { ORBIT_LAYOUTS, isOrbitLayoutId } from './layout';
+import { GroupNode, flattenGroupTree, toGroupTree } from './hierarchy';
+import { isFavoriteType, linkHandlers, normalizeFavorite } from './linkHandlers';
+import { ImageStore, internImages, isDataImage } from './images';
+
+// --- CONSTANTS ---
+const STORAGE_KEY = 'visualFavorites';
+const LAST_GOOD_KEY = 'visualFavorites:lastGood';
+export const CURRENT_SCHEMA_VERSION = 5;
+export const DEFAULT_VIEW: ViewState = { zoom: 1, pan: { x: 0, y: 0 } };
+// The board that data saved before boards existed is moved into.
+export const DEFAULT_BOARD_ID = 'board-default';
+export const DEFAULT_BOARD_NAME = 'My Board';
+// Browsers allow roughly five million characters per origin; the exact limit isn't exposed.
+export const STORAGE_QUOTA_ESTIMATE = 5_000_000;
+
+const OPEN_BEHAVIORS: NonNullable<Favorite['openBehavior']>[] = ['modal', 'newTab'];
+
+// --- DATA TYPES ---
+// On disk (and in exports) groups are a tree; in memory they are flat with `parentId`.
+export interface StoredCanvasData {
+  groups: GroupNode[];
+  view: ViewState;
+}
+
+export interface StoredBoard extends StoredCanvasData {
+  id: string;
+  name: string;
+  usage?: Record<string, FavoriteUsage>;
+  team?: TeamBoard;
+}
+
+export interface StoredWorkspace {
+  boards: StoredBoard[];
+  activeBoardId: string;
+  images: ImageStore;
+}
+
+export interface StorageEnvelope {
+  schemaVersion: number;
+  savedAt: string;
+  data: StoredWorkspace;
+}
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+// The optional never-set fields keep `.errors`/`.value` readable after an `ok` check.
+export type ValidationResult<T> =
+  | { ok: true; value: T; errors?: undefined }
+  | { ok: false; errors: ValidationIssue[]; value?: undefined };
+
+export type SaveResult = { ok: true; quotaExceeded?: undefined } | { ok: false; quotaExceeded: boolean };
+
+export type LoadResult =
+  | { ok: true; data: Workspace | null; errors?: undefined; raw?: undefined }
+  | { ok: false; errors: ValidationIssue[]; raw: string; data?: undefined };
+
+// --- VALIDATION ---
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isHexColor = (value: unknown): value is string =>
+  typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value);
+
+const validateFavorite = (value: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) issues.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+  if (!isFavoriteType(value.type)) {
+    issues.push({ path: `${path}.type`, message: `must be one of ${linkHandlers().map(h => h.type).join(', ')}` });
+  }
+  if (typeof value.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be a string' });
+  if (typeof value.url !== 'string') issues.push({ path: `${path}.url`, message: 'must be a string' });
+  if (value.imageUrl !== undefined && typeof value.imageUrl !== 'string') {
+    issues.push({ path: `${path}.imageUrl`, message: 'must be a string when present' });
+  }
+  if (value.displayText !== undefined && typeof value.displayText !== 'string') {
+    issues.push({ path: `${path}.displayText`, message: 'must be a string when present' });
+  }
+  if (value.favicon !== undefined && typeof value.favicon !== 'boolean') {
+    issues.push({ path: `${path}.favicon`, message: 'must be a boolean when present' });
+  }
+  if (value.pinnedAngle !== undefined && !isFiniteNumber(value.pinnedAngle)) {
+    issues.push({ path: `${path}.pinnedAngle`, message: 'must be a finite number when present' });
+  }
+  if (value.openBehavior !== undefined && !OPEN_BEHAVIORS.includes(value.openBehavior as 'modal')) {
+    issues.push({ path: `${path}.openBehavior`, message: `must be one of ${OPEN_BEHAVIORS.join(', ')} when present` });
+  }
+  if (value.tags !== undefined && (!Array.isArray(value.tags) || !value.tags.every(tag => typeof tag === 'string'))) {
+    issues.push({ path: `${path}.tags`, message: 'must be an array of strings when present' });
+  }
+  if (value.note !== undefined && typeof value.note !== 'string') {
+    issues.push({ path: `${path}.note`, message: 'must be a string when present' });
+  }
+};
+
+const validateGroup = (value: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) issues.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+  if (typeof value.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be a string' });
+  if (!isFiniteNumber(value.x)) issues.push({ path: `${path}.x`, message: 'must be a finite number' });
+  if (!isFiniteNumber(value.y)) issues.push({ path: `${path}.y`, message: 'must be a finite number' });
+  if (value.layout !== undefined && !isOrbitLayoutId(value.layout)) {
+    issues.push({ path: `${path}.layout`, message: `must be one of ${Object.keys(ORBIT_LAYOUTS).join(', ')} when present` });
+  }
+  if (value.collapsed !== undefined && typeof value.collapsed !== 'boolean') {
+    issues.push({ path: `${path}.collapsed`, message: 'must be a boolean when present' });
+  }
+  if (value.color !== undefined && !isHexColor(value.color)) {
+    issues.push({ path: `${path}.color`, message: 'must be a #rrggbb color when present' });
+  }
+  if (value.icon !== undefined && typeof value.icon !== 'string') {
+    issues.push({ path: `${path}.icon`, message: 'must be a string when present' });
+  }
+  // Only set on flat groups, as held in memory and sent to a team board.
+  if (value.parentId !== undefined && typeof value.parentId !== 'string') {
+    issues.push({ path: `${path}.parentId`, message: 'must be a string when present' });
+  }
+  if (!Array.isArray(value.favorites)) {
+    issues.push({ path: `${path}.favorites`, message: 'must be an array' });
+  } else {
+    value.favorites.forEach((fav, i) => validateFavorite(fav, `${path}.favorites[${i}]`, issues));
+  }
+  if (value.children !== undefined) {
+    if (!Array.isArray(value.children)) {
+      issues.push({ path: `${path}.children`, message: 'must be an array when present' });
+    } else {
+      value.children.forEach((child, i) => validateGroup(child, `${path}.children[${i}]`, issues));
+    }
+  }
+};
+
+const validateView = (value: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  if (!isFiniteNumber(value.zoom) || value.zoom <= 0) issues.push({ path: `${path}.zoom`, message: 'must be a positive number' });
+  if (!isRecord(value.pan) || !isFiniteNumber(value.pan.x) || !isFiniteNumber(value.pan.y)) {
+    issues.push({ path: `${path}.pan`, message: 'must have finite x and y' });
+  }
+};
+
+const findDuplicateIds = (groups: GroupNode[], path: string, issues: ValidationIssue[], seen = new Set<string>()) => {
+  groups.forEach((group, gi) => {
+    if (seen.has(group.id)) issues.push({ path: `${path}[${gi}].id`, message: `duplicate id "${group.id}"` });
+    seen.add(group.id);
+    group.favorites.forEach((fav, fi) => {
+      if (seen.has(fav.id)) issues.push({ path: `${path}[${gi}].favorites[${fi}].id`, message: `duplicate id "${fav.id}"` });
+      seen.add(fav.id);
+    });
+    findDuplicateIds(group.children ?? [], `${path}[${gi}].children`, issues, seen);
+  });
+};
+
+export const validateFavorites = (value: unknown, path = 'favorites'): ValidationResult<Favorite[]> => {
+  if (!Array.isArray(value)) {
+    return { ok: false, errors: [{ path, message: 'must be an array' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  value.forEach((fav, i) => validateFavorite(fav, `${path}[${i}]`, issues));
+  return issues.length ? { ok: false, errors: issues } : { ok: true, value };
+};
+
+export const validateGroups = (value: unknown, path = 'groups'): ValidationResult<GroupNode[]> => {
+  const issues: ValidationIssue[] = [];
+  if (!Array.isArray(value)) {
+    return { ok: false, errors: [{ path, message: 'must be an array' }] };
+  }
+  value.forEach((group, i) => validateGroup(group, `${path}[${i}]`, issues));
+  if (issues.length === 0) findDuplicateIds(value, path, issues);
+  return issues.length ? { ok: false, errors: issues } : { ok: true, value };
+};
+
+const validateBoard = (value: unknown, path: string, issues: ValidationIssue[]) => {
+  if (!isRecord(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  if (typeof value.id !== 'string' || !value.id) issues.push({ path: `${path}.id`, message: 'must be a non-empty string' });
+  if (typeof value.name !== 'string') issues.push({ path: `${path}.name`, message: 'must be a string' });
+  const groupsResult = validateGroups(value.groups, `${path}.groups`);
+  if (!groupsResult.ok) issues.push(...groupsResult.errors);
+  validateView(value.view, `${path}.view`, issues);
+  if (value.team !== undefined && !(isRecord(value.team) && typeof value.team.server === 'string' && /^wss?:\/\//.test(value.team.server))) {
+    issues.push({ path: `${path}.team`, message: 'must have a ws:// or wss:// server when present' });
+  }
+  if (value.usage === undefined) return;
+  if (!isRecord(value.usage)) {
+    issues.push({ path: `${path}.usage`, message: 'must be an object when present' });
+    return;
+  }
+  Object.entries(value.usage).forEach(([id, entry]) => {
+    const valid = isRecord(entry) && Number.isInteger(entry.count) && (entry.count as number) >= 0
+      && typeof entry.lastOpenedAt === 'string' && !Number.isNaN(Date.parse(entry.lastOpenedAt));
+    if (!valid) issues.push({ path: `${path}.usage.${id}`, message: 'must have a whole-number count and an ISO lastOpenedAt date' });
+  });
+};
+
+export const validateWorkspace = (value: unknown): ValidationResult<StoredWorkspace> => {
+  if (!isRecord(value)) {
+    return { ok: false, errors: [{ path: 'data', message: 'must be an object' }] };
+  }
+  if (!Array.isArray(value.boards) || value.boards.length === 0) {
+    return { ok: false, errors: [{ path: 'boards', message: 'must be a non-empty array' }] };
+  }
+  const issues: ValidationIssue[] = [];
+  const seen = new Set<unknown>();
+  value.boards.forEach((board, i) => {
+    validateBoard(board, `boards[${i}]`, issues);
+    if (isRecord(board) && seen.has(board.id)) issues.push({ path: `boards[${i}].id`, message: `duplicate id "${board.id}"` });
+    if (isRecord(board)) seen.add(board.id);
+  });
+  if (typeof value.activeBoardId !== 'string') issues.push({ path: 'activeBoardId', message: 'must be a string' });
+  if (!isRecord(value.images)) {
+    issues.push({ path: 'images', message: 'must be an object' });
+  } else {
+    Object.entries(value.images).forEach(([hash, url]) => {
+      if (!isDataImage(url as string)) issues.push({ path: `images.${hash}`, message: 'must be an image data URL' });
+    });
+  }
+  return issues.length ? { ok: false, errors: issues } : { ok: true, value: value as unknown as StoredWorkspace };
+};
+
+// A link its handler won't accept doesn't fail the load: the sample data once shipped with "#"
+// links and a file may have been edited by hand. It is kept as it is and flagged on the board.
+export const withNormalizedUrls = <T extends Pick<Group, 'favorites'>>(groups: T[]): T[] => groups.map(group => {
+  const favorites = group.favorites.map(normalizeFavorite);
+  return favorites.every((fav, i) => fav === group.favorites[i]) ? group : { ...group, favorites };
+});
+
+// --- MIGRATIONS ---
+// The part of a v4 workspace the v4 → v5 step touches: its boards, before they had usage.
+interface WorkspaceV4 {
+  boards: Omit<StoredBoard, 'usage'>[];
+}
+
+const isWorkspaceV4 = (data: unknown): data is WorkspaceV4 =>
+  isRecord(data) && Array.isArray(data.boards) && data.boards.every(isRecord);
+
+// migrations[n] upgrades data written with schema version n to version n + 1. Nothing is checked
+// until the result is validated, so a step leaves data it can't make sense of as it is.
+const migrations: Record<number, (data: unknown) => unknown> = {
+  // v0: the bare Group[] written before the envelope existed.
+  0: (groups) => ({ groups, view: DEFAULT_VIEW }),
+  // v1 → v2: groups may nest sub-groups under `children`; flat v1 groups are already valid roots.
+  1: (data) => data,
+  // v2 → v3: the single canvas becomes the first board.
+  2: (data) => (isRecord(data)
+    ? { boards: [{ id: DEFAULT_BOARD_ID, name: DEFAULT_BOARD_NAME, ...data }], activeBoardId: DEFAULT_BOARD_ID }
+    : data),
+  // v3 → v4: thumbnails move into a shared image store; parseStoredData interns the inline ones.
+  3: (data) => (isRecord(data) ? { ...data, images: {} } : data),
+  // v4 → v5: boards record how often each favorite is opened.
+  4: (data) => (isWorkspaceV4(data) ? { ...data, boards: data.boards.map(board => ({ ...board, usage: {} })) } : data),
+};
+
+const migrate = (version: number, data: unknown): unknown => {
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`Data was saved by a newer version of the app (schema ${version}).`);
+  }
+  let migrated = data;
+  for (let v = version; v < CURRENT_SCHEMA_VERSION; v++) {
+    const step = migrations[v];
+    if (!step) throw new Error(`No migration from schema ${v}.`);
+    migrated = step(migrated);
+  }
+  return migrated;
+};
+
+// Accepts anything we have ever written (a bare array or an envelope) and returns current-schema data.
+export const parseStoredData = (raw: string): ValidationResult<Workspace> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return { ok: false, errors: [{ path: '', message: `not valid JSON (${(error as Error).message})` }] };
+  }
+
+  const isEnvelope = isRecord(parsed) && typeof parsed.schemaVersion === 'number';
+  if (!isEnvelope && !Array.isArray(parsed)) {
+    return { ok: false, errors: [{ path: '', message: 'expected a schema envelope or a list of groups' }] };
+  }
+  const version = isEnvelope ? (parsed as Record<string, unknown>).schemaVersion as number : 0;
+  const data = isEnvelope ? (parsed as Record<string, unknown>).data : parsed;
+
+  try {
+    const result = validateWorkspace(migrate(version, data));
+    if (!result.ok) return result;
+    let images = result.value.images;
+    const boards: Board[] = result.value.boards.map(board => {
+      // Older data, and files edited by hand, may still carry data URLs inline.
+      const interned = internImages(withNormalizedUrls(flattenGroupTree(board.groups)), images);
+      images = interned.images;
+      return { ...board, groups: interned.groups };
+    });
+    // A file exported from a single board may name a board that isn't in it; fall back to the first.
+    const activeBoardId = boards.some(b => b.id === result.value.activeBoardId) ? result.value.activeBoardId : boards[0].id;
+    return { ok: true, value: { boards, activeBoardId, images } };
+  } catch (error) {
+    return { ok: false, errors: [{ path: 'schemaVersion', message: (error as Error).message }] };
+  }
+};
+
+// --- STORAGE ---
+export const createEnvelope = (workspace: Workspace): StorageEnvelope => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  savedAt: new Date().toISOString(),
+  data: {
+    boards: workspace.boards.map(board => ({ ...board, groups: toGroupTree(board.groups) })),
+    activeBoardId: workspace.activeBoardId,
+    images: workspace.images,
+  },
+});
+
+const isQuotaError = (error: unknown) =>
+  error instanceof DOMException && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+export const loadWorkspace = (): LoadResult => {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (raw === null) return { ok: true, data: null };
+
+  const result = parseStoredData(raw);
+  if (!result.ok) return { ok: false, errors: result.errors, raw };
+
+  try {
+    localStorage.setItem(LAST_GOOD_KEY, JSON.stringify(createEnvelope(result.value)));
+  } catch (error) {
+    // The snapshot is a safety net; a full storage must not keep the canvas from loading.
+    console.warn('Could not write the last-good snapshot.', error);
+  }
+  return { ok: true, data: result.value };
+};
+
+// When storage is full the last-good snapshot is given up first, since it is a second copy of
+// the same data. Nothing is thrown: the caller decides how to tell the user.
+export const saveWorkspace = (workspace: Workspace): SaveResult => {
+  const serialized = JSON.stringify(createEnvelope(workspace));
+  try {
+    localStorage.setItem(STORAGE_KEY, serialized);
+    return { ok: true };
+  } catch (error) {
+    if (!isQuotaError(error)) {
+      console.error('Saving failed.', error);
+      return { ok: false, quotaExceeded: false };
+    }
+  }
+  localStorage.removeItem(LAST_GOOD_KEY);
+  try {
+    localStorage.setItem(STORAGE_KEY, serialized);
+    return { ok: true };
+  } catch (error) {
+    return { ok: false, quotaExceeded: isQuotaError(error) };
+  }
+};
+
+// Calls `listener` with what another tab of this origin just saved; a tab doesn't hear its own
+// writes. Returns the unsubscribe function.
+export const onWorkspaceSavedElsewhere = (listener: (workspace: Workspace) => void) => {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY || e.newValue === null) return;
+    const result = parseStoredData(e.newValue);
+    if (result.ok) {
+      listener(result.value);
+    } else {
+      console.warn('Ignoring unreadable data saved by another tab.', result.errors);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+};
+
+// Characters used by everything this origin keeps in localStorage (history, saved searches…).
+export const storageUsage = () => {
+  let used = 0;
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i)!;
+    used += key.length + (localStorage.getItem(key)?.length ?? 0);
+  }
+  return { used, quota: STORAGE_QUOTA_ESTIMATE };
+};
+
+export const loadLastGoodSnapshot = (): { savedAt: string; data: Workspace } | null => {
+  const raw = localStorage.getItem(LAST_GOOD_KEY);
+  if (!raw) return null;
+  const result = parseStoredData(raw);
+  if (!result.ok) return null;
+  const savedAt = JSON.parse(raw).savedAt ?? '';
+  return { savedAt, data: result.value };
+};
+
+export const formatIssues = (issues: ValidationIssue[], limit = 5) => {
+  const lines = issues.slice(0, limit).map(issue => `• ${issue.path || '(root)'}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`…and ${issues.length - limit} more`);
+  return lines.join('\n');
+};
@@ -0,0 +1,40 @@
+import { Group } from './types';
+
+// --- DATA TYPES ---
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// --- PARSING ---
+// "work, #Q3 ,work" → ["work", "Q3"]. Tags compare case-insensitively; the first spelling wins.
+export const parseTags = (input: string) => {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(tag => tag.trim().replace(/^#+/, '').trim())
+    .filter(tag => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const formatTags = (tags: string[] | undefined) => (tags ?? []).join(', ');
+
+export const hasTag = (tags: string[] | undefined, tag: string) =>
+  !!tags?.some(t => t.toLowerCase() === tag.toLowerCase());
+
+// --- QUERIES ---
+// Every tag on the canvas with how many favorites carry it, most used first.
+export const collectTags = (groups: Group[]): TagCount[] => {
+  const counts = new Map<string, TagCount>();
+  groups.forEach(group => group.favorites.forEach(fav => (fav.tags ?? []).forEach(tag => {
+    const key = tag.toLowerCase();
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { tag, count: 1 });
+  })));
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
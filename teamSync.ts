@@ -0,0 +1,523 @@
+import { useEffect, useRef, useState } from 'react';
+import { Favorite, Group, TeamBoard } from './types';
+import { ImageStore, imageRefsIn, isDataImage } from './images';
+import { isRecord, validateFavorites, validateGroups, withNormalizedUrls } from './storage';
+import { normalizeFavorite } from './linkHandlers';
+import { createId } from './utils';
+
+// --- CONSTANTS ---
+// Where `npm run sync-server` listens by default.
+export const DEFAULT_SYNC_SERVER = 'ws://localhost:8787';
+const QUEUE_KEY = 'visualFavoritesTeamQueue';
+const NAME_KEY = 'visualFavoritesTeamName';
+// Local changes go out at most this often, so a burst of edits doesn't send a message for each.
+const SEND_INTERVAL_MS = 50;
+const CURSOR_INTERVAL_MS = 50;
+// The client whose operation lands on a multiple of this hands the server a fresh snapshot.
+const SNAPSHOT_EVERY = 100;
+const RECONNECT_DELAYS_MS = [1000, 2000, 5000, 10000, 30000];
+
+// --- DATA TYPES ---
+// Changes travel as operations rather than whole boards, so people editing different groups or
+// favorites never overwrite each other. Each one states the end result ("this group's favorites,
+// in this order"), which makes applying it twice harmless.
+export type SyncOp =
+  | { kind: 'putGroup'; group: Omit<Group, 'favorites'> }
+  | { kind: 'removeGroup'; groupId: string }
+  | { kind: 'orderGroups'; groupIds: string[] }
+  | { kind: 'putFavorite'; groupId: string; favorite: Favorite }
+  | { kind: 'orderFavorites'; groupId: string; favoriteIds: string[] }
+  | { kind: 'removeFavorites'; favoriteIds: string[] };
+
+// Thumbnails an operation refers to travel with it, since the other side's image store lacks them.
+interface PendingOp {
+  opId: string;
+  op: SyncOp;
+  images?: ImageStore;
+}
+
+interface OpEntry extends PendingOp {
+  seq: number;
+  clientId: string;
+}
+
+interface Snapshot {
+  seq: number;
+  groups: Group[];
+  images?: ImageStore;
+}
+
+export interface Peer {
+  clientId: string;
+  name: string;
+  color: string;
+  // World coordinates, or null while their pointer is off the canvas.
+  cursor: { x: number; y: number } | null;
+}
+
+export type TeamSyncStatus = 'connecting' | 'online' | 'offline';
+
+export interface TeamSyncState {
+  status: TeamSyncStatus;
+  peers: Peer[];
+  // Local operations the server hasn't confirmed yet, e.g. made while offline.
+  queued: number;
+}
+
+type ServerMessage =
+  | { type: 'welcome'; snapshot: Snapshot | null; ops: OpEntry[]; peers: Peer[] }
+  | ({ type: 'op' } & OpEntry)
+  // An operation we sent that the server had already applied.
+  | { type: 'ack'; opId: string }
+  | ({ type: 'presence' } & Peer)
+  | { type: 'leave'; clientId: string }
+  | { type: 'error'; message: string };
+
+interface TeamSyncOptions {
+  boardId: string;
+  team: TeamBoard;
+  getImages: () => ImageStore;
+  // Someone else's operations, to be applied on top of the canvas as it is.
+  onRemoteOps: (ops: SyncOp[]) => void;
+  // The server's state with our unconfirmed operations replayed on it, replacing the canvas.
+  onReset: (groups: Group[]) => void;
+  onImages: (images: ImageStore) => void;
+  onState: (state: TeamSyncState) => void;
+}
+
+// --- OPERATIONS ---
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const groupFields = ({ favorites, ...fields }: Group) => fields;
+
+// The operations that turn `prev` into `next`, in an order that can be applied one by one: groups
+// exist before favorites move into them, and are removed only once their favorites have left.
+export const diffGroups = (prev: Group[], next: Group[]): SyncOp[] => {
+  const prevById = new Map(prev.map(g => [g.id, g]));
+  const nextIds = new Set(next.map(g => g.id));
+  const ops: SyncOp[] = [];
+
+  next.forEach(group => {
+    const before = prevById.get(group.id);
+    if (!before || !isSame(groupFields(before), groupFields(group))) ops.push({ kind: 'putGroup', group: groupFields(group) });
+  });
+  const keptOrder = [...prev.map(g => g.id).filter(id => nextIds.has(id)), ...next.map(g => g.id).filter(id => !prevById.has(id))];
+  if (!isSame(keptOrder, next.map(g => g.id))) ops.push({ kind: 'orderGroups', groupIds: next.map(g => g.id) });
+
+  const prevFavorites = new Map(prev.flatMap(g => g.favorites.map(f => [f.id, f] as const)));
+  next.forEach(group => group.favorites.forEach(fav => {
+    if (!isSame(prevFavorites.get(fav.id), fav)) ops.push({ kind: 'putFavorite', groupId: group.id, favorite: fav });
+  }));
+  next.forEach(group => {
+    const order = group.favorites.map(f => f.id);
+    if (!isSame(prevById.get(group.id)?.favorites.map(f => f.id) ?? [], order)) ops.push({ kind: 'orderFavorites', groupId: group.id, favoriteIds: order });
+  });
+
+  const nextFavoriteIds = new Set(next.flatMap(g => g.favorites.map(f => f.id)));
+  const removed = [...prevFavorites.keys()].filter(id => !nextFavoriteIds.has(id));
+  if (removed.length) ops.push({ kind: 'removeFavorites', favoriteIds: removed });
+  prev.filter(g => !nextIds.has(g.id)).forEach(g => ops.push({ kind: 'removeGroup', groupId: g.id }));
+  return ops;
+};
+
+const withoutFavorites = (groups: Group[], ids: Set<string>) =>
+  groups.map(g => (g.favorites.some(f => ids.has(f.id)) ? { ...g, favorites: g.favorites.filter(f => !ids.has(f.id)) } : g));
+
+export const applyOp = (groups: Group[], op: SyncOp): Group[] => {
+  switch (op.kind) {
+    case 'putGroup': {
+      const existing = groups.find(g => g.id === op.group.id);
+      if (!existing) return [...groups, { ...op.group, favorites: [] }];
+      return groups.map(g => (g.id === op.group.id ? { ...op.group, favorites: g.favorites } : g));
+    }
+    case 'removeGroup':
+      return groups.filter(g => g.id !== op.groupId);
+    case 'orderGroups': {
+      const rank = new Map(op.groupIds.map((id, i) => [id, i]));
+      // Groups the sender didn't know about yet keep their place after the ones it ordered.
+      return [...groups].sort((a, b) => (rank.get(a.id) ?? Infinity) - (rank.get(b.id) ?? Infinity));
+    }
+    case 'putFavorite': {
+      if (groups.some(g => g.favorites.some(f => f.id === op.favorite.id))) {
+        return groups.map(g => ({ ...g, favorites: g.favorites.map(f => (f.id === op.favorite.id ? op.favorite : f)) }));
+      }
+      return groups.map(g => (g.id === op.groupId ? { ...g, favorites: [...g.favorites, op.favorite] } : g));
+    }
+    case 'orderFavorites': {
+      if (!groups.some(g => g.id === op.groupId)) return groups;
+      const byId = new Map(groups.flatMap(g => g.favorites.map(f => [f.id, f] as const)));
+      const listed = op.favoriteIds.filter(id => byId.has(id));
+      const rest = withoutFavorites(groups, new Set(listed));
+      return rest.map(g => (g.id === op.groupId ? { ...g, favorites: [...listed.map(id => byId.get(id)!), ...g.favorites] } : g));
+    }
+    case 'removeFavorites':
+      return withoutFavorites(groups, new Set(op.favoriteIds));
+    default:
+      return groups;
+  }
+};
+
+// --- VALIDATION ---
+// Everything from the server is checked the way a loaded file is, and what fails is left out
+// with a warning: a broken or hostile peer must not get unreadable groups onto our canvas.
+const isIdList = (value: unknown): value is string[] => Array.isArray(value) && value.every(id => typeof id === 'string');
+
+const readGroups = (value: unknown): Group[] | null => {
+  const result = validateGroups(value, 'snapshot.groups');
+  if (!result.ok) {
+    console.warn('Ignoring an unreadable snapshot from the sync server.', result.errors);
+    return null;
+  }
+  // Flat, as sent: sub-groups carry `parentId` rather than `children`.
+  return withNormalizedUrls(result.value as Group[]);
+};
+
+const readOp = (value: unknown): SyncOp | null => {
+  if (!isRecord(value)) return null;
+  switch (value.kind) {
+    case 'putGroup': {
+      const result = isRecord(value.group) ? validateGroups([{ ...value.group, favorites: [] }], 'op.group') : null;
+      return result?.ok ? { kind: 'putGroup', group: groupFields(result.value[0] as Group) } : null;
+    }
+    case 'removeGroup':
+      return typeof value.groupId === 'string' ? { kind: 'removeGroup', groupId: value.groupId } : null;
+    case 'orderGroups':
+      return isIdList(value.groupIds) ? { kind: 'orderGroups', groupIds: value.groupIds } : null;
+    case 'putFavorite': {
+      const result = validateFavorites([value.favorite], 'op.favorite');
+      return typeof value.groupId === 'string' && result.ok
+        ? { kind: 'putFavorite', groupId: value.groupId, favorite: normalizeFavorite(result.value[0]) }
+        : null;
+    }
+    case 'orderFavorites':
+      return typeof value.groupId === 'string' && isIdList(value.favoriteIds)
+        ? { kind: 'orderFavorites', groupId: value.groupId, favoriteIds: value.favoriteIds }
+        : null;
+    case 'removeFavorites':
+      return isIdList(value.favoriteIds) ? { kind: 'removeFavorites', favoriteIds: value.favoriteIds } : null;
+    default:
+      return null;
+  }
+};
+
+const readImages = (value: unknown): ImageStore | undefined => {
+  if (!isRecord(value)) return undefined;
+  const entries = Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && isDataImage(entry[1]));
+  return entries.length ? Object.fromEntries(entries) : undefined;
+};
+
+// An entry with its operation and images checked, or null with a warning.
+const readEntry = (value: unknown): OpEntry | null => {
+  const op = isRecord(value) ? readOp(value.op) : null;
+  if (!isRecord(value) || !op || typeof value.opId !== 'string' || typeof value.clientId !== 'string' || typeof value.seq !== 'number') {
+    console.warn('Ignoring an unreadable operation from the sync server.', value);
+    return null;
+  }
+  return { seq: value.seq, clientId: value.clientId, opId: value.opId, op, images: readImages(value.images) };
+};
+
+// A board that has a snapshot keeps one even when it can't be read, so this client doesn't
+// mistake the board for a new one and try to seed it.
+const readSnapshot = (value: unknown): Snapshot | null => {
+  if (!isRecord(value)) return null;
+  return { seq: typeof value.seq === 'number' ? value.seq : 0, groups: readGroups(value.groups) ?? [], images: readImages(value.images) };
+};
+
+const imagesFor = (value: unknown, images: ImageStore): ImageStore | undefined => {
+  const hashes = imageRefsIn(JSON.stringify(value)).filter(hash => images[hash]);
+  return hashes.length ? Object.fromEntries(hashes.map(hash => [hash, images[hash]])) : undefined;
+};
+
+// --- OFFLINE QUEUE ---
+const queueKey = (boardId: string) => `${QUEUE_KEY}:${boardId}`;
+
+const loadQueue = (boardId: string): PendingOp[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(queueKey(boardId)) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+// Every tab open on a board shares its queue, so a write keeps what other tabs queued in the
+// meantime and leaves out only the operations the server is known to have (`settled`).
+const saveQueue = (boardId: string, pending: PendingOp[], settled: Set<string>) => {
+  const ours = new Set<string>(pending.map(p => p.opId));
+  const queue = [...loadQueue(boardId).filter(p => !ours.has(p.opId) && !settled.has(p.opId)), ...pending];
+  try {
+    if (queue.length) localStorage.setItem(queueKey(boardId), JSON.stringify(queue));
+    else localStorage.removeItem(queueKey(boardId));
+  } catch (error) {
+    // The queue still lives in memory; it is only lost if this tab closes before reconnecting.
+    console.warn('Could not store queued team board changes.', error);
+  }
+};
+
+export const clearTeamQueue = (boardId: string) => localStorage.removeItem(queueKey(boardId));
+
+// --- CLIENT ---
+export const loadTeamName = () => localStorage.getItem(NAME_KEY) ?? '';
+
+export const saveTeamName = (name: string) => localStorage.setItem(NAME_KEY, name);
+
+// Keeps one board in step with the server. Local changes are diffed into operations and applied
+// optimistically; the server's order is the truth, so whenever someone else's operation arrives
+// the still-unconfirmed local ones are replayed on top of it.
+export const createTeamSync = (options: TeamSyncOptions) => {
+  const { boardId, team } = options;
+  const clientId = createId('client');
+  let socket: WebSocket | null = null;
+  let status: TeamSyncStatus = 'connecting';
+  let peers = new Map<string, Peer>();
+  let confirmed: Group[] | null = null;
+  // Starts with everything queued for the board, other tabs' operations included: one that closed
+  // while offline leaves its changes for the next tab to send. The server ignores anything sent twice.
+  let pending = loadQueue(boardId);
+  const settled = new Set<string>();
+  // What the canvas showed when it was last diffed, and what it shows now.
+  let synced: Group[] | null = null;
+  let latest: Group[] = [];
+  let flushTimer = 0;
+  let reconnectTimer = 0;
+  let reconnectAttempt = 0;
+  let lastCursorAt = 0;
+  let stopped = false;
+
+  const emitState = () => options.onState({ status, peers: [...peers.values()], queued: pending.length });
+
+  const send = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const sendOp = (pendingOp: PendingOp) => send({ type: 'op', ...pendingOp });
+
+  const storeQueue = () => saveQueue(boardId, pending, settled);
+
+  const flush = () => {
+    clearTimeout(flushTimer);
+    flushTimer = 0;
+    if (!synced || synced === latest) return;
+    const ops = diffGroups(synced, latest);
+    synced = latest;
+    if (!ops.length) return;
+    const images = options.getImages();
+    const added = ops.map(op => ({ opId: createId('op'), op, images: imagesFor(op, images) }));
+    pending = [...pending, ...added];
+    storeQueue();
+    if (status === 'online') added.forEach(sendOp);
+    emitState();
+  };
+
+  // The confirmed state with our unconfirmed operations on top; what the canvas should now show.
+  const rebase = () => {
+    const local = pending.reduce((groups, p) => applyOp(groups, p.op), confirmed!);
+    synced = local;
+    latest = local;
+    return local;
+  };
+
+  const receiveImages = (images: ImageStore | undefined) => {
+    if (images && Object.keys(images).length) options.onImages(images);
+  };
+
+  const handleWelcome = (snapshot: Snapshot | null, ops: OpEntry[], present: Peer[]) => {
+    flush();
+    peers = new Map(present.map(p => [p.clientId, p]));
+    status = 'online';
+    reconnectAttempt = 0;
+    if (!snapshot && ops.length === 0) {
+      // A board nobody has shared yet starts from ours, queued changes included.
+      confirmed = latest;
+      synced = latest;
+      pending.forEach(p => settled.add(p.opId));
+      pending = [];
+      storeQueue();
+      send({ type: 'snapshot', seq: 0, groups: latest, images: imagesFor(latest, options.getImages()) });
+      emitState();
+      return;
+    }
+    receiveImages(snapshot?.images);
+    ops.forEach(entry => receiveImages(entry.images));
+    confirmed = ops.reduce((groups, entry) => applyOp(groups, entry.op), snapshot?.groups ?? []);
+    // Operations the server took before the connection dropped, but whose confirmation never
+    // arrived, are already in `ops`; sending them again would replay them over newer edits.
+    ops.forEach(entry => settled.add(entry.opId));
+    pending = pending.filter(p => !settled.has(p.opId));
+    storeQueue();
+    pending.forEach(sendOp);
+    options.onReset(rebase());
+    emitState();
+  };
+
+  const handleOp = (entry: OpEntry) => {
+    flush();
+    if (!confirmed) return;
+    confirmed = applyOp(confirmed, entry.op);
+    receiveImages(entry.images);
+    settled.add(entry.opId);
+    // Ours, or one taken over from another tab's queue that that tab got in first.
+    if (pending.some(p => p.opId === entry.opId)) {
+      pending = pending.filter(p => p.opId !== entry.opId);
+      storeQueue();
+      emitState();
+    }
+    if (entry.clientId === clientId) {
+      if (entry.seq % SNAPSHOT_EVERY === 0) {
+        send({ type: 'snapshot', seq: entry.seq, groups: confirmed, images: imagesFor(confirmed, options.getImages()) });
+      }
+      return;
+    }
+    rebase();
+    // Applied to the canvas rather than replacing it, so whatever changed there since the last
+    // flush survives and goes out with the next one.
+    options.onRemoteOps([entry.op]);
+  };
+
+  // The server already had this one, folded into its snapshot, so the canvas is rebuilt without it.
+  const handleAck = (opId: string) => {
+    flush();
+    settled.add(opId);
+    if (!confirmed || !pending.some(p => p.opId === opId)) return;
+    pending = pending.filter(p => p.opId !== opId);
+    storeQueue();
+    options.onReset(rebase());
+    emitState();
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: ServerMessage;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    switch (message.type) {
+      case 'welcome': {
+        const ops = Array.isArray(message.ops) ? message.ops.map(readEntry).filter((entry): entry is OpEntry => !!entry) : [];
+        handleWelcome(readSnapshot(message.snapshot), ops, Array.isArray(message.peers) ? message.peers : []);
+        break;
+      }
+      case 'op': {
+        const entry = readEntry(message);
+        if (entry) handleOp(entry);
+        break;
+      }
+      case 'ack':
+        handleAck(message.opId);
+        break;
+      case 'presence': {
+        const { type, ...peer } = message;
+        peers.set(peer.clientId, peer);
+        emitState();
+        break;
+      }
+      case 'leave':
+        peers.delete(message.clientId);
+        emitState();
+        break;
+      case 'error':
+        console.warn(`Sync server: ${message.message}`);
+        break;
+    }
+  };
+
+  const connect = () => {
+    status = 'connecting';
+    emitState();
+    try {
+      socket = new WebSocket(team.server);
+    } catch (error) {
+      console.warn('Could not reach the sync server.', error);
+      scheduleReconnect();
+      return;
+    }
+    socket.onopen = () => send({ type: 'join', boardId, clientId, name: loadTeamName() });
+    socket.onmessage = handleMessage;
+    socket.onclose = () => {
+      socket = null;
+      peers = new Map();
+      if (!stopped) scheduleReconnect();
+    };
+  };
+
+  const scheduleReconnect = () => {
+    status = 'offline';
+    emitState();
+    const delay = RECONNECT_DELAYS_MS[Math.min(reconnectAttempt++, RECONNECT_DELAYS_MS.length - 1)];
+    reconnectTimer = window.setTimeout(connect, delay);
+  };
+
+  return {
+    start: (groups: Group[]) => {
+      latest = groups;
+      synced = groups;
+      connect();
+    },
+    stop: () => {
+      stopped = true;
+      flush();
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    },
+    // Called with the canvas on every change; remote changes we applied ourselves come back as-is.
+    update: (groups: Group[]) => {
+      latest = groups;
+      if (groups === synced || flushTimer) return;
+      flushTimer = window.setTimeout(flush, SEND_INTERVAL_MS);
+    },
+    sendCursor: (cursor: { x: number; y: number } | null) => {
+      const now = Date.now();
+      if (cursor && now - lastCursorAt < CURSOR_INTERVAL_MS) return;
+      lastCursorAt = now;
+      if (status === 'online') send({ type: 'presence', cursor });
+    },
+  };
+};
+
+export type TeamSync = ReturnType<typeof createTeamSync>;
+
+// --- HOOK ---
+// Connects while the board is a team board, following `groups` (the canvas) as it changes.
+export const useTeamSync = (
+  boardId: string,
+  team: TeamBoard | undefined,
+  groups: Group[],
+  callbacks: Pick<TeamSyncOptions, 'getImages' | 'onRemoteOps' | 'onReset' | 'onImages'>,
+) => {
+  const [state, setState] = useState<TeamSyncState | null>(null);
+  const syncRef = useRef<TeamSync | null>(null);
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+  const groupsRef = useRef(groups);
+  groupsRef.current = groups;
+  const server = team?.server;
+
+  useEffect(() => {
+    if (!server) {
+      setState(null);
+      return;
+    }
+    const sync = createTeamSync({
+      boardId,
+      team: { server },
+      getImages: () => callbacksRef.current.getImages(),
+      onRemoteOps: (ops) => callbacksRef.current.onRemoteOps(ops),
+      onReset: (next) => callbacksRef.current.onReset(next),
+      onImages: (images) => callbacksRef.current.onImages(images),
+      onState: setState,
+    });
+    syncRef.current = sync;
+    sync.start(groupsRef.current);
+    return () => {
+      sync.stop();
+      syncRef.current = null;
+    };
+  }, [boardId, server]);
+
+  useEffect(() => {
+    syncRef.current?.update(groups);
+  }, [groups]);
+
+  return { state, sendCursor: (cursor: { x: number; y: number } | null) => syncRef.current?.sendCursor(cursor) };
+};
@@ -0,0 +1,124 @@
+import { useEffect, useState } from 'react';
+import { Favorite } from './types';
+import { processImage } from './images';
+
+// --- CONSTANTS ---
+const FAVICON_CACHE_KEY = 'visualFavoritesFavicons';
+// Sites rarely serve CORS-readable icons themselves, so they come from a favicon service. Only
+// the hostname is sent, and only for favorites that asked for their site icon.
+const FAVICON_SERVICE_URL = 'https://www.google.com/s2/favicons?sz=64&domain=';
+const FAVICON_SIZE = 64;
+// The least recently fetched icons are dropped beyond this, keeping the cache to a few hundred KB.
+const MAX_CACHED_FAVICONS = 200;
+
+// --- MONOGRAMS ---
+// Up to four characters, matching the limit in AddFavoriteModal.
+export const generateDisplayText = (title: string) => {
+  const words = title.replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return '★';
+  if (words.length === 1) return words[0].slice(0, 3).toUpperCase();
+  return words.slice(0, 3).map(w => w[0]).join('').toUpperCase();
+};
+
+// A stable hue per name, so a favorite keeps its color across reloads and devices.
+export const monogramHue = (name: string) => {
+  let hash = 0;
+  for (let i = 0; i < name.length; i++) hash = Math.imul(hash ^ name.charCodeAt(i), 16777619);
+  return (hash >>> 0) % 360;
+};
+
+// --- FAVICON CACHE ---
+interface CachedFavicon {
+  data: string;
+  fetchedAt: number;
+}
+
+type FaviconCache = Record<string, CachedFavicon>;
+
+let cache: FaviconCache | null = null;
+// Hosts whose icon couldn't be fetched this session; retried after a reload.
+const failedHosts = new Set<string>();
+const pending = new Map<string, Promise<string | undefined>>();
+
+const readCache = (): FaviconCache => {
+  if (cache) return cache;
+  try {
+    const parsed = JSON.parse(localStorage.getItem(FAVICON_CACHE_KEY) ?? '{}');
+    cache = parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    cache = {};
+  }
+  return cache!;
+};
+
+// The cache can always be rebuilt, so running out of space just means fewer icons survive offline.
+const writeCache = (next: FaviconCache) => {
+  const entries = Object.entries(next).sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt).slice(0, MAX_CACHED_FAVICONS);
+  cache = Object.fromEntries(entries);
+  try {
+    localStorage.setItem(FAVICON_CACHE_KEY, JSON.stringify(cache));
+  } catch {
+    // Keep the in-memory copy for this session.
+  }
+};
+
+export const faviconHost = (url: string) => {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return /^https?:$/.test(protocol) && hostname.includes('.') ? hostname.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+};
+
+export const cachedFavicon = (host: string) => readCache()[host]?.data;
+
+const fetchFavicon = async (host: string) => {
+  const response = await fetch(`${FAVICON_SERVICE_URL}${encodeURIComponent(host)}`);
+  // The service answers unknown sites with a generic globe and a 404; a monogram is better.
+  if (!response.ok) throw new Error(`No icon for ${host}`);
+  return processImage(await response.blob(), FAVICON_SIZE);
+};
+
+// Resolves to undefined when there is no icon to be had; callers show a monogram instead.
+export const loadFavicon = (host: string): Promise<string | undefined> => {
+  const cached = cachedFavicon(host);
+  if (cached) return Promise.resolve(cached);
+  if (failedHosts.has(host) || !navigator.onLine) return Promise.resolve(undefined);
+  let request = pending.get(host);
+  if (!request) {
+    request = fetchFavicon(host)
+      .then(data => {
+        writeCache({ ...readCache(), [host]: { data, fetchedAt: Date.now() } });
+        return data;
+      })
+      .catch(() => {
+        failedHosts.add(host);
+        return undefined;
+      })
+      .finally(() => pending.delete(host));
+    pending.set(host, request);
+  }
+  return request;
+};
+
+// The site icon for a favorite that asked for one, from the cache when possible.
+export const useFavicon = (favorite: Pick<Favorite, 'favicon' | 'url'>) => {
+  const host = favorite.favicon ? faviconHost(favorite.url) : null;
+  const [icon, setIcon] = useState<string | undefined>(() => (host ? cachedFavicon(host) : undefined));
+
+  useEffect(() => {
+    if (!host) {
+      setIcon(undefined);
+      return;
+    }
+    let cancelled = false;
+    setIcon(cachedFavicon(host));
+    loadFavicon(host).then(data => {
+      if (!cancelled) setIcon(data);
+    });
+    return () => { cancelled = true; };
+  }, [host]);
+
+  return icon;
+};
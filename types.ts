@@ -0,0 +1,87 @@
+// --- DATA TYPES ---
+export interface Favorite {
+  id: string;
+  type: 'web' | 'teams' | 'excel' | 'powerpoint' | 'teamsGroup';
+  name: string;
+  url: string;
+  imageUrl?: string;
+  displayText?: string;
+  // Show the site's icon when there is no image or text; otherwise a generated monogram is shown.
+  favicon?: boolean;
+  // 'modal' opens it in a tab of the docked workspace panel; the name is kept for stored data.
+  openBehavior?: 'modal' | 'newTab';
+  // Degrees clockwise from 12 o'clock; unpinned favorites follow their order in the group.
+  pinnedAngle?: number;
+  tags?: string[];
+  note?: string;
+}
+
+export type OrbitLayoutId = 'classic' | 'rings' | 'scaled';
+
+export interface Group {
+  id: string;
+  name: string;
+  favorites: Favorite[];
+  x: number;
+  y: number;
+  layout?: OrbitLayoutId;
+  // Sub-groups orbit their parent; their x/y are derived from it while nested.
+  parentId?: string;
+  collapsed?: boolean;
+  // A `#rrggbb` glow for the sun and a short emoji or symbol shown before its name.
+  color?: string;
+  icon?: string;
+}
+
+export interface ViewState {
+  zoom: number;
+  pan: { x: number; y: number };
+}
+
+export interface TravelingItem {
+  item: Favorite;
+  startPos: { x: number; y: number };
+  endPos: { x: number; y: number };
+  fromGroupId: string;
+}
+
+// One or more favorites flying into a group together; they land side by side from `toIndex`.
+export interface Travel {
+  items: TravelingItem[];
+  toGroupId: string;
+  toIndex: number;
+}
+
+export interface CanvasData {
+  groups: Group[];
+  view: ViewState;
+}
+
+// How often a favorite has been opened, and when last (an ISO timestamp).
+export interface FavoriteUsage {
+  count: number;
+  lastOpenedAt: string;
+}
+
+// A board shared through a sync server (server/sync-server.mjs); the board's id names it there.
+export interface TeamBoard {
+  // A ws:// or wss:// URL.
+  server: string;
+}
+
+// Each board is a separate canvas with its own groups and saved view.
+export interface Board extends CanvasData {
+  id: string;
+  name: string;
+  // Keyed by favorite id. Kept beside the groups rather than in them, so opening a link isn't an
+  // undoable edit and undoing an edit doesn't roll the counts back.
+  usage?: Record<string, FavoriteUsage>;
+  team?: TeamBoard;
+}
+
+export interface Workspace {
+  boards: Board[];
+  activeBoardId: string;
+  // Uploaded thumbnails by content hash; favorites refer to them as `image:<hash>`.
+  images: Record<string, string>;
+}
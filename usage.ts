@@ -0,0 +1,132 @@
+import { Favorite, FavoriteUsage, Group } from './types';
+import { GROUP_FOOTPRINT, findFreePositions, rootSystems } from './layout';
+
+// --- CONSTANTS ---
+const USAGE_VIEW_KEY = 'visualFavoritesUsageView';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// An open counts half as much after this many days, so a burst of use long ago doesn't outrank
+// what is being used now.
+const USAGE_HALF_LIFE_DAYS = 30;
+// How many planets the Recent and Frequent suns show.
+export const USAGE_SUN_SIZE = 8;
+export const DEFAULT_STALE_DAYS = 90;
+export const ARCHIVE_GROUP_NAME = 'Archive';
+
+// --- DATA TYPES ---
+export type UsageStats = Record<string, FavoriteUsage>;
+
+export type UsageSunMode = 'recent' | 'frequent';
+
+// 1–3, from lightly to heavily used; favorites never opened have no level.
+export type UsageLevel = 1 | 2 | 3;
+
+export interface UsageView {
+  // Planets glow and grow with their usage level.
+  highlight: boolean;
+  // Which virtual sun is shown, if any.
+  sun: UsageSunMode | null;
+}
+
+export interface StaleFavorite {
+  groupId: string;
+  favorite: Favorite;
+  usage?: FavoriteUsage;
+}
+
+// --- RECORDING ---
+export const recordOpen = (usage: UsageStats, favoriteId: string, now = new Date()): UsageStats => ({
+  ...usage,
+  [favoriteId]: { count: (usage[favoriteId]?.count ?? 0) + 1, lastOpenedAt: now.toISOString() },
+});
+
+// Opens counted in either copy since `base` all count; the later open sets the recency.
+export const mergeUsage = (base: UsageStats = {}, mine: UsageStats = {}, theirs: UsageStats = {}): UsageStats => {
+  if (JSON.stringify(mine) === JSON.stringify(base)) return theirs;
+  const ids = new Set([...Object.keys(mine), ...Object.keys(theirs)]);
+  return Object.fromEntries([...ids].map(id => {
+    const [was, ours, their] = [base[id], mine[id], theirs[id]];
+    if (!ours || !their) return [id, ours ?? their];
+    const count = Math.max(ours.count, their.count, ours.count + their.count - (was?.count ?? 0));
+    return [id, { count, lastOpenedAt: ours.lastOpenedAt > their.lastOpenedAt ? ours.lastOpenedAt : their.lastOpenedAt }];
+  }));
+};
+
+// Only the entries for favorites in `groups`, e.g. for an export of part of a board.
+export const usageForGroups = (usage: UsageStats, groups: Group[]): UsageStats => {
+  const ids = new Set(groups.flatMap(g => g.favorites.map(f => f.id)));
+  return Object.fromEntries(Object.entries(usage).filter(([id]) => ids.has(id)));
+};
+
+// --- QUERIES ---
+const daysSince = (iso: string, now: number) => Math.max(0, (now - Date.parse(iso)) / DAY_MS);
+
+export const usageScore = (entry: FavoriteUsage | undefined, now = Date.now()) =>
+  entry ? entry.count * Math.pow(0.5, daysSince(entry.lastOpenedAt, now) / USAGE_HALF_LIFE_DAYS) : 0;
+
+// Levels are relative to the board's most used favorite, so the glow means the same on a board
+// opened a few times as on one opened every day.
+export const usageLevels = (groups: Group[], usage: UsageStats, now = Date.now()) => {
+  const scores = groups.flatMap(g => g.favorites).map(f => ({ id: f.id, score: usageScore(usage[f.id], now) }));
+  const max = Math.max(0, ...scores.map(s => s.score));
+  const levels = new Map<string, UsageLevel>();
+  if (max === 0) return levels;
+  scores.forEach(({ id, score }) => {
+    if (score > 0) levels.set(id, Math.max(1, Math.ceil((score / max) * 3)) as UsageLevel);
+  });
+  return levels;
+};
+
+// The most recently or most often opened favorites, best first.
+export const topFavorites = (groups: Group[], usage: UsageStats, mode: UsageSunMode, limit = USAGE_SUN_SIZE, now = Date.now()) => {
+  const opened = groups.flatMap(g => g.favorites).filter(f => usage[f.id]);
+  const rank = mode === 'recent'
+    ? (f: Favorite) => Date.parse(usage[f.id].lastOpenedAt)
+    : (f: Favorite) => usageScore(usage[f.id], now);
+  return opened.sort((a, b) => rank(b) - rank(a)).slice(0, limit);
+};
+
+// Never-opened favorites count as opened at the epoch, which sorts them before any real open.
+const lastOpenedTime = (stale: StaleFavorite) => (stale.usage ? Date.parse(stale.usage.lastOpenedAt) : 0);
+
+// Favorites not opened in the last `days`, never-opened ones first, then the longest unused.
+export const staleFavorites = (groups: Group[], usage: UsageStats, days: number, now = Date.now()): StaleFavorite[] =>
+  groups
+    .flatMap(group => group.favorites.map(favorite => ({ groupId: group.id, favorite, usage: usage[favorite.id] })))
+    .filter(s => !s.usage || daysSince(s.usage.lastOpenedAt, now) >= days)
+    .sort((a, b) => lastOpenedTime(a) - lastOpenedTime(b));
+
+export const describeLastOpened = (entry: FavoriteUsage | undefined, now = Date.now()) => {
+  if (!entry) return 'Never opened';
+  const days = Math.floor(daysSince(entry.lastOpenedAt, now));
+  const when = days === 0 ? 'today' : days === 1 ? 'yesterday' : `${days} days ago`;
+  return `Last opened ${when} · ${entry.count} open${entry.count === 1 ? '' : 's'}`;
+};
+
+// --- VIRTUAL SUN ---
+// A free spot just right of everything on the board, so the sun stays put while the layout does.
+export const usageSunPosition = (groups: Group[]) => {
+  const systems = rootSystems(groups);
+  if (systems.length === 0) return findFreePositions([], 1)[0];
+  const origin = {
+    x: Math.max(...systems.map(s => s.x + s.radius)) + GROUP_FOOTPRINT / 2,
+    y: Math.min(...systems.map(s => s.y)),
+  };
+  return findFreePositions(systems, 1, origin)[0];
+};
+
+// --- PREFERENCES ---
+export const loadUsageView = (): UsageView => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(USAGE_VIEW_KEY) ?? '{}');
+    return {
+      highlight: parsed?.highlight === true,
+      sun: parsed?.sun === 'recent' || parsed?.sun === 'frequent' ? parsed.sun : null,
+    };
+  } catch {
+    return { highlight: false, sun: null };
+  }
+};
+
+export const saveUsageView = (view: UsageView) => {
+  localStorage.setItem(USAGE_VIEW_KEY, JSON.stringify(view));
+};
@@ -0,0 +1,21 @@
+// Ids only need to be unique within a canvas; the random suffix keeps ids
+// created in the same millisecond (duplicates, imports) apart.
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const downloadText = (text: string, filename: string, mimeType = 'text/plain') => {
+  const link = document.createElement("a");
+  link.href = `data:${mimeType};charset=utf-8,${encodeURIComponent(text)}`;
+  link.download = filename;
+  link.click();
+};
+
+// For binary files and ones too large for a data URL.
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
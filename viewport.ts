@@ -0,0 +1,169 @@
+import { useRef, useCallback, useEffect } from 'react';
+import { ViewState } from './types';
+
+// --- CONSTANTS ---
+export const MIN_ZOOM = 0.2;
+export const MAX_ZOOM = 3.0;
+// Fitting never zooms in further than this, so a lone small group doesn't fill the screen.
+export const FIT_MAX_ZOOM = 1.5;
+export const FOCUS_ZOOM = 1.5;
+const FLY_DURATION_MS = 600;
+// Anything this far (in screen pixels) outside the viewport is still rendered, so a pan can move
+// the canvas on its own for a while before anything new has to be drawn.
+export const CULL_MARGIN = 400;
+// Below this zoom planets are drawn as plain dots.
+export const DETAIL_ZOOM = 0.45;
+
+// --- DATA TYPES ---
+type Point = { x: number; y: number };
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// --- VIEW MATH ---
+export const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+export const panBy = (view: ViewState, dx: number, dy: number): ViewState => ({
+  ...view,
+  pan: { x: view.pan.x + dx, y: view.pan.y + dy },
+});
+
+// Zooms by `factor` while keeping the world point under `anchor` (in canvas pixels) in place.
+export const zoomAround = (view: ViewState, factor: number, anchor: Point): ViewState => {
+  const zoom = clampZoom(view.zoom * factor);
+  const worldX = (anchor.x - view.pan.x) / view.zoom;
+  const worldY = (anchor.y - view.pan.y) / view.zoom;
+  return { zoom, pan: { x: anchor.x - worldX * zoom, y: anchor.y - worldY * zoom } };
+};
+
+export const viewCenter = (view: ViewState, size: Size): Point => ({
+  x: (size.width / 2 - view.pan.x) / view.zoom,
+  y: (size.height / 2 - view.pan.y) / view.zoom,
+});
+
+export const centerOn = (point: Point, zoom: number, size: Size): ViewState => ({
+  zoom,
+  pan: { x: size.width / 2 - point.x * zoom, y: size.height / 2 - point.y * zoom },
+});
+
+// The part of the world currently on screen.
+export const visibleBounds = (view: ViewState, size: Size): Bounds => ({
+  minX: -view.pan.x / view.zoom,
+  minY: -view.pan.y / view.zoom,
+  maxX: (size.width - view.pan.x) / view.zoom,
+  maxY: (size.height - view.pan.y) / view.zoom,
+});
+
+// --- BOUNDS ---
+export const boundsOf = (circles: (Point & { radius?: number })[]): Bounds | null =>
+  circles.length === 0 ? null : circles.reduce<Bounds>((b, { x, y, radius = 0 }) => ({
+    minX: Math.min(b.minX, x - radius),
+    minY: Math.min(b.minY, y - radius),
+    maxX: Math.max(b.maxX, x + radius),
+    maxY: Math.max(b.maxY, y + radius),
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity });
+
+export const unionBounds = (a: Bounds, b: Bounds): Bounds => ({
+  minX: Math.min(a.minX, b.minX),
+  minY: Math.min(a.minY, b.minY),
+  maxX: Math.max(a.maxX, b.maxX),
+  maxY: Math.max(a.maxY, b.maxY),
+});
+
+export const overlaps = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY;
+
+export const isInside = (bounds: Bounds, { x, y, radius = 0 }: Point & { radius?: number }) =>
+  overlaps(bounds, { minX: x - radius, minY: y - radius, maxX: x + radius, maxY: y + radius });
+
+// What the canvas renders: the visible part of the world plus CULL_MARGIN on every side.
+export const renderBounds = (view: ViewState, size: Size): Bounds => {
+  const { minX, minY, maxX, maxY } = visibleBounds(view, size);
+  const margin = CULL_MARGIN / view.zoom;
+  return { minX: minX - margin, minY: minY - margin, maxX: maxX + margin, maxY: maxY + margin };
+};
+
+export const fitBounds = (bounds: Bounds, size: Size, padding = 40): ViewState => {
+  const width = Math.max(1, bounds.maxX - bounds.minX);
+  const height = Math.max(1, bounds.maxY - bounds.minY);
+  const zoom = clampZoom(Math.min((size.width - padding * 2) / width, (size.height - padding * 2) / height, FIT_MAX_ZOOM));
+  return centerOn({ x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }, zoom, size);
+};
+
+// --- ANIMATION ---
+export const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2);
+
+// Moves the center in a straight line and the zoom geometrically, so neither one appears to
+// lurch while the other changes.
+export const interpolateView = (from: ViewState, to: ViewState, t: number, size: Size): ViewState => {
+  const a = viewCenter(from, size);
+  const b = viewCenter(to, size);
+  const zoom = from.zoom * Math.pow(to.zoom / from.zoom, t);
+  return centerOn({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, zoom, size);
+};
+
+// Animates the view between two states. Any manual pan or zoom should call `stop` first.
+export const useViewAnimation = (setView: (view: ViewState) => void) => {
+  const frame = useRef(0);
+
+  const stop = useCallback(() => {
+    cancelAnimationFrame(frame.current);
+    frame.current = 0;
+  }, []);
+
+  const flyTo = useCallback((from: ViewState, to: ViewState, size: Size) => {
+    stop();
+    if (window.matchMedia('(prefers-reduced-motion: reduce)').matches) {
+      setView(to);
+      return;
+    }
+    const start = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - start) / FLY_DURATION_MS);
+      setView(interpolateView(from, to, easeInOut(t), size));
+      frame.current = t < 1 ? requestAnimationFrame(step) : 0;
+    };
+    frame.current = requestAnimationFrame(step);
+  }, [setView, stop]);
+
+  useEffect(() => stop, [stop]);
+
+  return { flyTo, stop };
+};
+
+// Runs the most recently scheduled task once per animation frame, so a burst of pointer events
+// costs one render. `flush` runs a waiting task right away; `cancel` drops it.
+export const useFrameTask = () => {
+  const frame = useRef(0);
+  const task = useRef<(() => void) | null>(null);
+
+  const cancel = useCallback(() => {
+    cancelAnimationFrame(frame.current);
+    frame.current = 0;
+    task.current = null;
+  }, []);
+
+  const flush = useCallback(() => {
+    const run = task.current;
+    cancel();
+    run?.();
+  }, [cancel]);
+
+  const schedule = useCallback((next: () => void) => {
+    task.current = next;
+    if (!frame.current) frame.current = requestAnimationFrame(flush);
+  }, [flush]);
+
+  useEffect(() => cancel, [cancel]);
+
+  return { schedule, flush, cancel };
+};